@@ -0,0 +1,117 @@
+import { packRegion } from "./alignmentProtocol";
+import type { GridAlignmentOutcome, GridAlignmentSearchOptions } from "./gridAlignment";
+import type { GridState, MultiPolygon } from "./state";
+
+const DEFAULT_CACHE_CAPACITY = 16;
+const FNV_OFFSET_BASIS = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+/**
+ * Finished searches by cache key, dropping the least recently used past its capacity. Keys only
+ * hash the region, so each entry keeps its region and a hit must match it coordinate for
+ * coordinate.
+ */
+export interface AlignmentCache {
+  get(key: string, region: MultiPolygon): GridAlignmentOutcome | null;
+  set(key: string, region: MultiPolygon, outcome: GridAlignmentOutcome): void;
+}
+
+interface AlignmentCacheEntry {
+  region: MultiPolygon;
+  outcome: GridAlignmentOutcome;
+}
+
+export function createAlignmentCache(capacity = DEFAULT_CACHE_CAPACITY): AlignmentCache {
+  const entries = new Map<string, AlignmentCacheEntry>();
+  return {
+    get(key, region) {
+      const entry = entries.get(key);
+      if (!entry || !sameRegion(entry.region, region)) {
+        return null;
+      }
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry.outcome;
+    },
+    set(key, region, outcome) {
+      entries.delete(key);
+      entries.set(key, { region, outcome });
+      if (entries.size > capacity) {
+        const oldest = entries.keys().next().value;
+        if (oldest !== undefined) {
+          entries.delete(oldest);
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Identifies a search by a hash of the region's coordinates plus every setting that shapes its
+ * result. The grid pose only counts where constraints pin it: otherwise the search roams over all
+ * poses, so returning to an earlier region restores the earlier alignment wherever the grid is.
+ * Warm starts are left out, so only full sweeps may be stored under a key.
+ */
+export function alignmentCacheKey(
+  region: MultiPolygon,
+  grid: GridState,
+  options: GridAlignmentSearchOptions,
+): string {
+  const constraints = options.constraints;
+  const settings = {
+    kind: grid.kind,
+    spacingX: grid.spacingX,
+    spacingY: grid.spacingY,
+    angle: constraints?.lockAngle ? grid.angle : null,
+    origin: constraints?.lockOrigin || constraints?.slideAxis ? grid.origin : null,
+    refine: options.refine,
+    candidateCount: options.candidateCount,
+    tieBreakers: options.tieBreakers,
+    constraints,
+    spacingSearch: options.spacingSearch,
+    componentRule: options.componentRule,
+    clearance: options.clearance,
+    minCoverage: options.minCoverage,
+    verifyExact: options.verifyExact,
+  };
+  return `${hashRegion(region)}:${JSON.stringify(settings)}`;
+}
+
+function sameRegion(a: MultiPolygon, b: MultiPolygon): boolean {
+  if (a === b) {
+    return true;
+  }
+  return (
+    a.length === b.length &&
+    a.every(
+      (polygon, p) =>
+        polygon.length === b[p].length &&
+        polygon.every(
+          (ring, r) =>
+            ring.length === b[p][r].length &&
+            ring.every(([x, y], i) => x === b[p][r][i][0] && y === b[p][r][i][1]),
+        ),
+    )
+  );
+}
+
+/** 32-bit FNV-1a over the region's packed coordinates and ring layout. */
+function hashRegion(region: MultiPolygon): string {
+  const packed = packRegion(region);
+  let hash = FNV_OFFSET_BASIS;
+  [
+    new Uint32Array(packed.coords.buffer),
+    packed.ringEnds,
+    packed.polygonEnds,
+  ].forEach((words) => {
+    words.forEach((word) => {
+      for (let shift = 0; shift < 32; shift += 8) {
+        hash ^= (word >>> shift) & 0xff;
+        hash = Math.imul(hash, FNV_PRIME);
+      }
+    });
+    hash ^= 0xff;
+    hash = Math.imul(hash, FNV_PRIME);
+  });
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
@@ -0,0 +1,112 @@
+import { packRegion, packedRegionTransferables } from "./alignmentProtocol";
+import type { AlignmentWorkerRequest, AlignmentWorkerResponse } from "./alignmentProtocol";
+import type {
+  GridAlignmentOptions,
+  GridAlignmentOutcome,
+  GridAlignmentSearchOptions,
+} from "./gridAlignment";
+import type { GridState, MultiPolygon } from "./state";
+
+let idleWorker: Worker | null = null;
+let nextRequestId = 1;
+
+function createAbortError() {
+  return new DOMException("Aborted", "AbortError");
+}
+
+function acquireWorker(): Worker {
+  if (idleWorker) {
+    const worker = idleWorker;
+    idleWorker = null;
+    return worker;
+  }
+  return new Worker(new URL("./alignmentWorker.ts", import.meta.url), { type: "module" });
+}
+
+function releaseWorker(worker: Worker) {
+  if (idleWorker) {
+    worker.terminate();
+    return;
+  }
+  idleWorker = worker;
+}
+
+/**
+ * Runs findBestGridAlignmentAsync inside a dedicated worker. Aborting the signal terminates the
+ * worker and rejects with an AbortError, matching the in-thread implementation. Progress reports
+ * and new leaders are relayed from the worker to `onProgress` and `onBestSoFar`.
+ */
+export function findBestGridAlignmentInWorker(
+  region: MultiPolygon | null,
+  grid: GridState,
+  options: GridAlignmentSearchOptions &
+    Pick<GridAlignmentOptions, "signal" | "onProgress" | "onBestSoFar"> = {},
+): Promise<GridAlignmentOutcome | null> {
+  const { signal, onProgress, onBestSoFar, ...searchOptions } = options;
+  if (signal?.aborted) {
+    return Promise.reject(createAbortError());
+  }
+  if (!region) {
+    return Promise.resolve(null);
+  }
+
+  const worker = acquireWorker();
+  const id = nextRequestId;
+  nextRequestId += 1;
+
+  return new Promise<GridAlignmentOutcome | null>((resolve, reject) => {
+    const cleanup = () => {
+      worker.removeEventListener("message", onMessage);
+      worker.removeEventListener("error", onError);
+      signal?.removeEventListener("abort", onAbort);
+    };
+
+    const onMessage = (event: MessageEvent<AlignmentWorkerResponse>) => {
+      const response = event.data;
+      if (response.id !== id) {
+        return;
+      }
+      if (response.type === "progress") {
+        onProgress?.(response.progress);
+        return;
+      }
+      if (response.type === "best") {
+        onBestSoFar?.(response.best);
+        return;
+      }
+      cleanup();
+      releaseWorker(worker);
+      if (response.type === "result") {
+        resolve(response.result);
+      } else {
+        reject(new Error(response.message));
+      }
+    };
+
+    const onError = (event: ErrorEvent) => {
+      cleanup();
+      worker.terminate();
+      reject(new Error(event.message || "Grid alignment worker failed"));
+    };
+
+    const onAbort = () => {
+      cleanup();
+      worker.terminate();
+      reject(createAbortError());
+    };
+
+    worker.addEventListener("message", onMessage);
+    worker.addEventListener("error", onError);
+    signal?.addEventListener("abort", onAbort);
+
+    const packed = packRegion(region);
+    const request: AlignmentWorkerRequest = {
+      type: "align",
+      id,
+      region: packed,
+      grid: { ...grid, origin: { ...grid.origin } },
+      options: searchOptions,
+    };
+    worker.postMessage(request, packedRegionTransferables(packed));
+  });
+}
@@ -0,0 +1,90 @@
+import type {
+  GridAlignmentOutcome,
+  GridAlignmentProgress,
+  GridAlignmentResult,
+  GridAlignmentSearchOptions,
+} from "./gridAlignment";
+import type { ClipRing, GridState, MultiPolygon } from "./state";
+
+/**
+ * Flat, transferable encoding of a MultiPolygon. `coords` holds interleaved x/y pairs, `ringEnds`
+ * holds the exclusive end (in points) of every ring and `polygonEnds` the exclusive end (in rings)
+ * of every polygon.
+ */
+export interface PackedRegion {
+  coords: Float64Array;
+  ringEnds: Uint32Array;
+  polygonEnds: Uint32Array;
+}
+
+export type AlignmentWorkerRequest = {
+  type: "align";
+  id: number;
+  region: PackedRegion;
+  grid: GridState;
+  options: GridAlignmentSearchOptions;
+};
+
+export type AlignmentWorkerResponse =
+  | { type: "progress"; id: number; progress: GridAlignmentProgress }
+  | { type: "best"; id: number; best: GridAlignmentResult }
+  | { type: "result"; id: number; result: GridAlignmentOutcome | null }
+  | { type: "error"; id: number; message: string };
+
+export function packRegion(region: MultiPolygon): PackedRegion {
+  let pointCount = 0;
+  let ringCount = 0;
+  region.forEach((polygon) => {
+    ringCount += polygon.length;
+    polygon.forEach((ring) => {
+      pointCount += ring.length;
+    });
+  });
+
+  const coords = new Float64Array(pointCount * 2);
+  const ringEnds = new Uint32Array(ringCount);
+  const polygonEnds = new Uint32Array(region.length);
+  let point = 0;
+  let ringIndex = 0;
+  region.forEach((polygon, polygonIndex) => {
+    polygon.forEach((ring) => {
+      ring.forEach(([x, y]) => {
+        coords[point * 2] = x;
+        coords[point * 2 + 1] = y;
+        point += 1;
+      });
+      ringEnds[ringIndex] = point;
+      ringIndex += 1;
+    });
+    polygonEnds[polygonIndex] = ringIndex;
+  });
+  return { coords, ringEnds, polygonEnds };
+}
+
+export function unpackRegion(packed: PackedRegion): MultiPolygon {
+  const { coords, ringEnds, polygonEnds } = packed;
+  const region: MultiPolygon = [];
+  let point = 0;
+  let ringIndex = 0;
+  for (let p = 0; p < polygonEnds.length; p += 1) {
+    const polygon: ClipRing[] = [];
+    for (; ringIndex < polygonEnds[p]; ringIndex += 1) {
+      const ring: ClipRing = [];
+      for (; point < ringEnds[ringIndex]; point += 1) {
+        ring.push([coords[point * 2], coords[point * 2 + 1]]);
+      }
+      polygon.push(ring);
+    }
+    region.push(polygon);
+  }
+  return region;
+}
+
+/** Buffers that can be moved to the worker without copying. */
+export function packedRegionTransferables(packed: PackedRegion): ArrayBuffer[] {
+  return [
+    packed.coords.buffer as ArrayBuffer,
+    packed.ringEnds.buffer as ArrayBuffer,
+    packed.polygonEnds.buffer as ArrayBuffer,
+  ];
+}
@@ -0,0 +1,204 @@
+import {
+  latticeCellArea,
+  latticeCellCenter,
+  latticeNeighbors,
+  latticePitch,
+  latticeSharedEdgeLength,
+} from "./lattice";
+import { cellPixelRows } from "./raster";
+import { squaredDistanceToZeros } from "./distanceField";
+import { createCellSet } from "./cellSet";
+import type { CellSet } from "./cellSet";
+import type { RasterMask, RasterResult, Vec2 } from "./state";
+
+/** Secondary objectives used to rank alignments that tie on cell count. */
+export type AlignmentObjective = "clearance" | "centering" | "compactness";
+
+export interface AlignmentScores {
+  /** Smallest gap between the cell block and the region boundary, in world units. Higher wins. */
+  clearance: number;
+  /** Distance from the block centroid to the region centroid, in world units. Lower wins. */
+  centering: number;
+  /** Perimeter-to-area ratio of the block, in 1 / world units. Lower wins. */
+  compactness: number;
+}
+
+export const EMPTY_ALIGNMENT_SCORES: AlignmentScores = { clearance: 0, centering: 0, compactness: 0 };
+
+export const DEFAULT_TIE_BREAKERS: AlignmentObjective[] = ["clearance", "centering", "compactness"];
+
+const OBJECTIVE_DIRECTION: Record<AlignmentObjective, number> = {
+  clearance: 1,
+  centering: -1,
+  compactness: -1,
+};
+const SCORE_EPSILON = 1e-9;
+
+const clearanceFields = new WeakMap<RasterMask, Float32Array>();
+const maskCentroids = new WeakMap<RasterMask, Vec2>();
+
+/**
+ * Compares two score sets along the given objectives in order. Returns a positive number when `a`
+ * ranks higher, negative when `b` does and 0 when they tie on every objective.
+ */
+export function compareAlignmentScores(
+  a: AlignmentScores,
+  b: AlignmentScores,
+  objectives: readonly AlignmentObjective[],
+): number {
+  for (const objective of objectives) {
+    const delta = (a[objective] - b[objective]) * OBJECTIVE_DIRECTION[objective];
+    if (delta > SCORE_EPSILON) {
+      return 1;
+    }
+    if (delta < -SCORE_EPSILON) {
+      return -1;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Scores a cell block given as grid indices at `offsetGrid`. Clearance comes from a distance field
+ * over the mask, centering from the covered-pixel centroid and compactness from exposed cell edges.
+ */
+export function scoreCellBlock(
+  raster: RasterResult,
+  offsetGrid: Vec2,
+  cells: readonly Vec2[],
+): AlignmentScores {
+  if (!cells.length) {
+    return { ...EMPTY_ALIGNMENT_SCORES };
+  }
+  const pitch = latticePitch(raster.gridKind, raster.gridSpacingX, raster.gridSpacingY);
+  const centers = cells.map((cell) => {
+    const center = latticeCellCenter(raster.gridKind, pitch, cell.x, cell.y);
+    return { x: center.x + offsetGrid.x, y: center.y + offsetGrid.y };
+  });
+  const cellSet = createCellSet(cells);
+  return {
+    clearance: measureClearance(raster, cells, centers, cellSet),
+    centering: measureCentering(raster.mask, centers),
+    compactness: measureCompactness(raster, cells, cellSet),
+  };
+}
+
+function measureClearance(
+  raster: RasterResult,
+  cells: readonly Vec2[],
+  centers: readonly Vec2[],
+  cellSet: CellSet,
+): number {
+  const { mask, gridKind } = raster;
+  const field = getClearanceField(mask);
+  let minDistance = Infinity;
+
+  // The block is nearest to the outside somewhere on its own outline, so cells whose neighbours
+  // (diagonals included) are all in the block are skipped. Within a cell the distance is smallest
+  // on its border, so only border pixels are read: the first and last rows in full and the two
+  // ends of every row in between.
+  cells.forEach((cell, cellIndex) => {
+    const enclosed = latticeNeighbors(gridKind, cell.x, cell.y, "corner").every((neighbor) =>
+      cellSet.has(neighbor.x, neighbor.y),
+    );
+    if (enclosed) {
+      return;
+    }
+    const rows = cellPixelRows(raster, centers[cellIndex]).filter(
+      ({ row }) => row >= 0 && row < mask.height,
+    );
+    rows.forEach(({ row: y, startX: rowStart, endX: rowEnd }, index) => {
+      const startX = Math.max(0, rowStart);
+      const endX = Math.min(mask.width - 1, rowEnd);
+      if (endX < startX) {
+        return;
+      }
+      const row = y * mask.width;
+      if (index === 0 || index === rows.length - 1) {
+        for (let x = startX; x <= endX; x += 1) {
+          minDistance = Math.min(minDistance, field[row + x]);
+        }
+      } else {
+        minDistance = Math.min(minDistance, field[row + startX], field[row + endX]);
+      }
+    });
+  });
+
+  // Field values are center-to-center distances; a pixel touching the outside sits one pixel away.
+  return Math.max(0, minDistance - Math.min(mask.cellSizeX, mask.cellSizeY));
+}
+
+function measureCentering(mask: RasterMask, centers: readonly Vec2[]): number {
+  let sumX = 0;
+  let sumY = 0;
+  centers.forEach((center) => {
+    sumX += center.x;
+    sumY += center.y;
+  });
+  const centroid = getMaskCentroid(mask);
+  return Math.hypot(sumX / centers.length - centroid.x, sumY / centers.length - centroid.y);
+}
+
+function measureCompactness(
+  raster: RasterResult,
+  cells: readonly Vec2[],
+  cellSet: CellSet,
+): number {
+  const { gridKind, gridSpacingX, gridSpacingY } = raster;
+  let perimeter = 0;
+  cells.forEach((cell) => {
+    latticeNeighbors(gridKind, cell.x, cell.y).forEach((neighbor) => {
+      if (!cellSet.has(neighbor.x, neighbor.y)) {
+        perimeter += latticeSharedEdgeLength(gridKind, gridSpacingX, gridSpacingY, cell, neighbor);
+      }
+    });
+  });
+  return perimeter / (cells.length * latticeCellArea(gridKind, gridSpacingX, gridSpacingY));
+}
+
+function getMaskCentroid(mask: RasterMask): Vec2 {
+  const cached = maskCentroids.get(mask);
+  if (cached) {
+    return cached;
+  }
+  let sumX = 0;
+  let sumY = 0;
+  let count = 0;
+  for (let y = 0; y < mask.height; y += 1) {
+    for (let x = 0; x < mask.width; x += 1) {
+      if (mask.data[y * mask.width + x]) {
+        sumX += x;
+        sumY += y;
+        count += 1;
+      }
+    }
+  }
+  const centroid =
+    count === 0
+      ? { x: mask.originGrid.x, y: mask.originGrid.y }
+      : {
+          x: mask.originGrid.x + (sumX / count + 0.5) * mask.cellSizeX,
+          y: mask.originGrid.y + (sumY / count + 0.5) * mask.cellSizeY,
+        };
+  maskCentroids.set(mask, centroid);
+  return centroid;
+}
+
+/**
+ * Euclidean distance, in world units, from every pixel center to the nearest uncovered pixel
+ * center. Cached per mask.
+ */
+function getClearanceField(mask: RasterMask): Float32Array {
+  const cached = clearanceFields.get(mask);
+  if (cached) {
+    return cached;
+  }
+  const { width, height, data } = mask;
+  const squared = squaredDistanceToZeros(data, width, height, mask.cellSizeX, mask.cellSizeY);
+  const field = new Float32Array(width * height);
+  for (let i = 0; i < field.length; i += 1) {
+    field[i] = Math.sqrt(squared[i]);
+  }
+  clearanceFields.set(mask, field);
+  return field;
+}
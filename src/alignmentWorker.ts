@@ -0,0 +1,36 @@
+import { findBestGridAlignmentAsync } from "./gridAlignment";
+import { unpackRegion } from "./alignmentProtocol";
+import type { AlignmentWorkerRequest, AlignmentWorkerResponse } from "./alignmentProtocol";
+
+// The DOM lib is the only one in scope, so describe the bits of the worker global we rely on.
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<AlignmentWorkerRequest>) => void) | null;
+  postMessage(message: AlignmentWorkerResponse): void;
+};
+
+scope.onmessage = (event) => {
+  const request = event.data;
+  if (request.type !== "align") {
+    return;
+  }
+  const region = unpackRegion(request.region);
+  // Nothing else shares this thread, so the search runs without yielding. Cancellation is done by
+  // terminating the worker from the client side.
+  findBestGridAlignmentAsync(region, request.grid, {
+    ...request.options,
+    yieldBudgetMs: Number.POSITIVE_INFINITY,
+    onProgress: (progress) => {
+      scope.postMessage({ type: "progress", id: request.id, progress });
+    },
+    onBestSoFar: (best) => {
+      scope.postMessage({ type: "best", id: request.id, best });
+    },
+  })
+    .then((result) => {
+      scope.postMessage({ type: "result", id: request.id, result });
+    })
+    .catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      scope.postMessage({ type: "error", id: request.id, message });
+    });
+};
@@ -0,0 +1,74 @@
+import { findBestGridAlignmentAsync } from "./gridAlignment";
+import { createInitialState } from "./state";
+import type { GridKind, MultiPolygon } from "./state";
+
+/**
+ * Times the full alignment search, exact check included, on the default region and on a copy
+ * scaled to ten times its area, for every grid kind. Serve with `npm run dev` and open
+ * benchmark.html; results go to the page and the console.
+ */
+
+const RUNS = 5;
+const LARGE_AREA_FACTOR = 10;
+const GRID_KINDS: GridKind[] = ["rect", "hex-pointy", "hex-flat"];
+
+const output = document.getElementById("benchmark-output") as HTMLElement;
+
+function scaleRegion(region: MultiPolygon, factor: number): MultiPolygon {
+  return region.map((polygon) =>
+    polygon.map((ring) => ring.map(([x, y]) => [x * factor, y * factor] as [number, number])),
+  );
+}
+
+function nextFrame() {
+  return new Promise<void>((resolve) => requestAnimationFrame(() => resolve()));
+}
+
+async function runBenchmark() {
+  const state = createInitialState();
+  const region = state.region as MultiPolygon;
+  const regions: [string, MultiPolygon][] = [
+    ["default", region],
+    [`${LARGE_AREA_FACTOR}× area`, scaleRegion(region, Math.sqrt(LARGE_AREA_FACTOR))],
+  ];
+  const lines = ["region      grid        cells   median ms   min ms   unverified"];
+  output.textContent = lines.join("\n");
+
+  for (const [name, benchRegion] of regions) {
+    for (const kind of GRID_KINDS) {
+      const grid = { ...state.grid, kind };
+      const durations: number[] = [];
+      let cellCount = 0;
+      let unverified = 0;
+      for (let run = 0; run < RUNS; run += 1) {
+        await nextFrame();
+        const start = performance.now();
+        // The search runs without yielding, as it does in the worker.
+        const outcome = await findBestGridAlignmentAsync(benchRegion, grid, {
+          yieldBudgetMs: Number.POSITIVE_INFINITY,
+          verifyExact: true,
+        });
+        durations.push(performance.now() - start);
+        cellCount = outcome?.candidates[0]?.cellCount ?? 0;
+        unverified = outcome?.candidates[0]?.verification?.unverifiableCells ?? 0;
+      }
+      durations.sort((a, b) => a - b);
+      const median = durations[Math.floor(durations.length / 2)];
+      lines.push(
+        [
+          name.padEnd(11),
+          kind.padEnd(11),
+          cellCount.toString().padStart(5),
+          median.toFixed(0).padStart(11),
+          durations[0].toFixed(0).padStart(8),
+          unverified.toString().padStart(12),
+        ].join(" "),
+      );
+      output.textContent = lines.join("\n");
+    }
+  }
+  // eslint-disable-next-line no-console
+  console.log(lines.join("\n"));
+}
+
+runBenchmark();
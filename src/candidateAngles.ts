@@ -0,0 +1,326 @@
+import { latticeEdgeDirections, latticeSymmetryDegrees } from "./lattice";
+import type { GridState, MultiPolygon, Vec2 } from "./state";
+
+/**
+ * Where a coarse grid angle came from:
+ * - "edge": a wall direction, weighted by how much of the outline runs that way
+ * - "caliper": a side of the minimum-area bounding rectangle
+ * - "principal": a principal axis of the region's area
+ * - "fill": a step that keeps gaps between the others small
+ * - "locked": the current angle, kept by the lock-angle constraint
+ * - "warmStart": a neighbour of a warm start's angle
+ */
+export type CandidateAngleSource =
+  | "edge"
+  | "caliper"
+  | "principal"
+  | "fill"
+  | "locked"
+  | "warmStart";
+
+export interface CandidateAngle {
+  /** Grid angle in radians. */
+  angle: number;
+  /** Every source that proposed this angle, in the order listed by CandidateAngleSource. */
+  sources: CandidateAngleSource[];
+}
+
+const COARSE_STEP_DEGREES = 5;
+const ANGLE_BIN_RESOLUTION = 1; // degrees
+/** Edge bins holding less than this share of the outline's length are treated as notches. */
+const DOMINANT_EDGE_FRACTION = 0.02;
+/** Proposals closer than this, in degrees, are merged into one candidate. */
+const MERGE_TOLERANCE_DEGREES = 0.5;
+/** Principal axes are skipped when the second moments are this close to isotropic. */
+const ISOTROPY_EPSILON = 1e-6;
+const SOURCE_ORDER: CandidateAngleSource[] = [
+  "edge",
+  "caliper",
+  "principal",
+  "fill",
+  "locked",
+  "warmStart",
+];
+
+interface AngleProposal {
+  /** Grid angle in degrees, folded into [0, fold). */
+  degrees: number;
+  sources: CandidateAngleSource[];
+}
+
+/**
+ * Coarse angles over one symmetry period of the lattice (60° for hex, 90° for square cells, 180°
+ * for other rectangles). Every region direction is mapped to the grid angles that lay a cell edge
+ * along it, folded by the angle between cell edges. Dominant walls, the minimum-area bounding
+ * rectangle and the principal axes propose angles; gaps between them are filled in steps of at
+ * most 5°.
+ */
+export function buildCandidateAngles(
+  region: MultiPolygon | null,
+  grid: GridState,
+): CandidateAngle[] {
+  if (!region) {
+    return [{ angle: 0, sources: ["fill"] }];
+  }
+
+  const edgeDirections = latticeEdgeDirections(grid.kind);
+  const fold = 180 / edgeDirections.length;
+  const phase = edgeDirections[0] % fold;
+  const periodDegrees = latticeSymmetryDegrees(grid.kind, grid.spacingX, grid.spacingY);
+  const toGridDegrees = (directionDegrees: number) =>
+    (((directionDegrees - phase) % fold) + fold) % fold;
+
+  const proposals: AngleProposal[] = [];
+  const propose = (directionDegrees: number, source: CandidateAngleSource) => {
+    proposals.push({ degrees: toGridDegrees(directionDegrees), sources: [source] });
+  };
+  dominantEdgeDirections(region).forEach((deg) => propose(deg, "edge"));
+  const hull = convexHull(collectPoints(region));
+  const caliper = minimumAreaRectangleDirection(hull);
+  if (caliper !== null) {
+    propose(caliper, "caliper");
+    propose(caliper + 90, "caliper");
+  }
+  const principal = principalAxisDirection(region);
+  if (principal !== null) {
+    propose(principal, "principal");
+    propose(principal + 90, "principal");
+  }
+
+  const anchors = mergeProposals(proposals, fold);
+  if (!anchors.length) {
+    return [{ angle: 0, sources: ["fill"] }];
+  }
+
+  const folded: AngleProposal[] = [];
+  anchors.forEach((anchor, index) => {
+    folded.push(anchor);
+    const next =
+      index === anchors.length - 1 ? anchors[0].degrees + fold : anchors[index + 1].degrees;
+    const span = next - anchor.degrees;
+    const needed = Math.max(1, Math.ceil(span / COARSE_STEP_DEGREES));
+    for (let i = 1; i < needed; i += 1) {
+      folded.push({ degrees: (anchor.degrees + (span * i) / needed) % fold, sources: ["fill"] });
+    }
+  });
+
+  // A period longer than the fold repeats every direction once per fold.
+  const candidates: CandidateAngle[] = [];
+  folded.forEach(({ degrees, sources }) => {
+    for (let turn = degrees; turn < periodDegrees; turn += fold) {
+      candidates.push({ angle: toRad(turn), sources });
+    }
+  });
+  return candidates.sort((a, b) => a.angle - b.angle);
+}
+
+/**
+ * Region edge directions, in degrees modulo 180, whose 1° bin holds at least
+ * DOMINANT_EDGE_FRACTION of the outline's length. Each is the length-weighted mean direction of
+ * its bin. The heaviest bin always counts, so an outline of only short edges still has one.
+ */
+function dominantEdgeDirections(region: MultiPolygon): number[] {
+  const bins = new Map<number, { length: number; weightedSum: number }>();
+  let totalLength = 0;
+  region.forEach((polygon) => {
+    polygon.forEach((ring) => {
+      for (let i = 0; i < ring.length; i += 1) {
+        const [x1, y1] = ring[i];
+        const [x2, y2] = ring[(i + 1) % ring.length];
+        const length = Math.hypot(x2 - x1, y2 - y1);
+        if (length < 1e-9) {
+          continue;
+        }
+        const deg = Math.min(180 - 1e-4, ((toDeg(Math.atan2(y2 - y1, x2 - x1)) % 180) + 180) % 180);
+        const bin = Math.floor(deg / ANGLE_BIN_RESOLUTION) * ANGLE_BIN_RESOLUTION;
+        const entry = bins.get(bin) ?? { length: 0, weightedSum: 0 };
+        entry.length += length;
+        entry.weightedSum += length * deg;
+        bins.set(bin, entry);
+        totalLength += length;
+      }
+    });
+  });
+  const heaviest = Math.max(0, ...Array.from(bins.values()).map((entry) => entry.length));
+  const threshold = Math.min(heaviest, totalLength * DOMINANT_EDGE_FRACTION);
+  return Array.from(bins.values())
+    .filter((entry) => entry.length >= threshold)
+    .map((entry) => entry.weightedSum / entry.length);
+}
+
+/**
+ * Sorts proposals around the fold and merges those within MERGE_TOLERANCE_DEGREES of the previous
+ * kept one, including across the wrap. The earliest source's angle is kept.
+ */
+function mergeProposals(proposals: AngleProposal[], fold: number): AngleProposal[] {
+  const rank = (proposal: AngleProposal) => SOURCE_ORDER.indexOf(proposal.sources[0]);
+  const sorted = proposals.slice().sort((a, b) => a.degrees - b.degrees);
+  const merged: AngleProposal[] = [];
+  const absorb = (into: AngleProposal, from: AngleProposal) => {
+    if (rank(from) < rank(into)) {
+      into.degrees = from.degrees;
+    }
+    from.sources.forEach((source) => {
+      if (!into.sources.includes(source)) {
+        into.sources.push(source);
+      }
+    });
+    into.sources.sort((a, b) => SOURCE_ORDER.indexOf(a) - SOURCE_ORDER.indexOf(b));
+  };
+  sorted.forEach((proposal) => {
+    const last = merged[merged.length - 1];
+    if (last && proposal.degrees - last.degrees <= MERGE_TOLERANCE_DEGREES) {
+      absorb(last, proposal);
+    } else {
+      merged.push({ degrees: proposal.degrees, sources: proposal.sources.slice() });
+    }
+  });
+  if (merged.length > 1) {
+    const first = merged[0];
+    const last = merged[merged.length - 1];
+    if (first.degrees + fold - last.degrees <= MERGE_TOLERANCE_DEGREES) {
+      absorb(first, last);
+      merged.pop();
+    }
+  }
+  return merged;
+}
+
+function collectPoints(region: MultiPolygon): Vec2[] {
+  const points: Vec2[] = [];
+  region.forEach((polygon) => {
+    polygon.forEach((ring) => {
+      ring.forEach(([x, y]) => points.push({ x, y }));
+    });
+  });
+  return points;
+}
+
+/** Andrew's monotone chain; counter-clockwise, without collinear points. */
+function convexHull(points: Vec2[]): Vec2[] {
+  const sorted = points.slice().sort((a, b) => a.x - b.x || a.y - b.y);
+  if (sorted.length < 3) {
+    return sorted;
+  }
+  // Pushes `point` after dropping every point that would make the chain turn clockwise.
+  const extend = (chain: Vec2[], point: Vec2) => {
+    while (chain.length >= 2) {
+      const o = chain[chain.length - 2];
+      const a = chain[chain.length - 1];
+      if ((a.x - o.x) * (point.y - o.y) - (a.y - o.y) * (point.x - o.x) > 0) {
+        break;
+      }
+      chain.pop();
+    }
+    chain.push(point);
+  };
+  const lower: Vec2[] = [];
+  sorted.forEach((point) => extend(lower, point));
+  const upper: Vec2[] = [];
+  for (let i = sorted.length - 1; i >= 0; i -= 1) {
+    extend(upper, sorted[i]);
+  }
+  lower.pop();
+  upper.pop();
+  return lower.concat(upper);
+}
+
+/**
+ * Rotating calipers: the minimum-area bounding rectangle has a side along some hull edge, so each
+ * edge direction is tried. Returns that side's direction in degrees, or null for a degenerate hull.
+ */
+function minimumAreaRectangleDirection(hull: Vec2[]): number | null {
+  if (hull.length < 3) {
+    return null;
+  }
+  let bestArea = Infinity;
+  let bestAngle: number | null = null;
+  for (let i = 0; i < hull.length; i += 1) {
+    const a = hull[i];
+    const b = hull[(i + 1) % hull.length];
+    const angle = Math.atan2(b.y - a.y, b.x - a.x);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    let minU = Infinity;
+    let maxU = -Infinity;
+    let minV = Infinity;
+    let maxV = -Infinity;
+    hull.forEach((point) => {
+      const u = point.x * cos + point.y * sin;
+      const v = point.y * cos - point.x * sin;
+      minU = Math.min(minU, u);
+      maxU = Math.max(maxU, u);
+      minV = Math.min(minV, v);
+      maxV = Math.max(maxV, v);
+    });
+    const area = (maxU - minU) * (maxV - minV);
+    if (area < bestArea) {
+      bestArea = area;
+      bestAngle = angle;
+    }
+  }
+  return bestAngle === null ? null : toDeg(bestAngle);
+}
+
+/**
+ * Major principal axis of the region's area, in degrees, from its second moments about the
+ * centroid. Holes count negatively. Returns null when the region has no preferred direction.
+ */
+function principalAxisDirection(region: MultiPolygon): number | null {
+  let area = 0;
+  let sx = 0;
+  let sy = 0;
+  let sxx = 0;
+  let syy = 0;
+  let sxy = 0;
+  region.forEach((polygon) => {
+    polygon.forEach((ring, ringIndex) => {
+      // Outer rings add and holes subtract, whatever their winding.
+      let ringArea = 0;
+      let rx = 0;
+      let ry = 0;
+      let rxx = 0;
+      let ryy = 0;
+      let rxy = 0;
+      for (let i = 0; i < ring.length; i += 1) {
+        const [x0, y0] = ring[i];
+        const [x1, y1] = ring[(i + 1) % ring.length];
+        const c = x0 * y1 - x1 * y0;
+        ringArea += c / 2;
+        rx += ((x0 + x1) * c) / 6;
+        ry += ((y0 + y1) * c) / 6;
+        rxx += ((x0 * x0 + x0 * x1 + x1 * x1) * c) / 12;
+        ryy += ((y0 * y0 + y0 * y1 + y1 * y1) * c) / 12;
+        rxy += ((x0 * y1 + 2 * x0 * y0 + 2 * x1 * y1 + x1 * y0) * c) / 24;
+      }
+      const sign = (ringArea < 0 ? -1 : 1) * (ringIndex === 0 ? 1 : -1);
+      area += sign * ringArea;
+      sx += sign * rx;
+      sy += sign * ry;
+      sxx += sign * rxx;
+      syy += sign * ryy;
+      sxy += sign * rxy;
+    });
+  });
+  if (Math.abs(area) < 1e-12) {
+    return null;
+  }
+  const cx = sx / area;
+  const cy = sy / area;
+  const ixx = sxx / area - cx * cx;
+  const iyy = syy / area - cy * cy;
+  const ixy = sxy / area - cx * cy;
+  const scale = Math.max(Math.abs(ixx), Math.abs(iyy), 1e-12);
+  if (Math.abs(ixx - iyy) / scale < ISOTROPY_EPSILON && Math.abs(ixy) / scale < ISOTROPY_EPSILON) {
+    return null;
+  }
+  return toDeg(0.5 * Math.atan2(2 * ixy, ixx - iyy));
+}
+
+function toDeg(rad: number): number {
+  return (rad * 180) / Math.PI;
+}
+
+function toRad(deg: number): number {
+  return (deg * Math.PI) / 180;
+}
@@ -0,0 +1,87 @@
+import type { GridSampleBounds, Vec2 } from "./state";
+
+/**
+ * Immutable set of grid cells addressed by integer (ix, iy) indices, stored as a bitset over the
+ * members' bounding box.
+ */
+export interface CellSet {
+  readonly count: number;
+  /** Inclusive index bounds of the members, or null when the set is empty. */
+  readonly bounds: GridSampleBounds | null;
+  has(ix: number, iy: number): boolean;
+  /**
+   * Row-major position of (ix, iy) within `bounds`, or -1 outside them, so callers can keep
+   * per-cell data in arrays of `bounds` size.
+   */
+  indexOf(ix: number, iy: number): number;
+  /** Visits the members in row order: by iy, then by ix. */
+  forEach(visit: (ix: number, iy: number) => void): void;
+}
+
+export function createCellSet(cells: readonly Vec2[]): CellSet {
+  if (!cells.length) {
+    return createBitsetCellSet(null, new Uint32Array(0), 0);
+  }
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  cells.forEach((cell) => {
+    minX = Math.min(minX, cell.x);
+    minY = Math.min(minY, cell.y);
+    maxX = Math.max(maxX, cell.x);
+    maxY = Math.max(maxY, cell.y);
+  });
+  const bounds = { minX, maxX, minY, maxY };
+  const width = maxX - minX + 1;
+  const bits = new Uint32Array(Math.ceil((width * (maxY - minY + 1)) / 32));
+  let count = 0;
+  cells.forEach((cell) => {
+    const index = (cell.y - minY) * width + (cell.x - minX);
+    const mask = 1 << (index & 31);
+    if (!(bits[index >>> 5] & mask)) {
+      bits[index >>> 5] |= mask;
+      count += 1;
+    }
+  });
+  return createBitsetCellSet(bounds, bits, count);
+}
+
+export const EMPTY_CELL_SET: CellSet = createCellSet([]);
+
+function createBitsetCellSet(
+  bounds: GridSampleBounds | null,
+  bits: Uint32Array,
+  count: number,
+): CellSet {
+  const width = bounds ? bounds.maxX - bounds.minX + 1 : 0;
+
+  const indexOf = (ix: number, iy: number): number => {
+    if (!bounds || ix < bounds.minX || ix > bounds.maxX || iy < bounds.minY || iy > bounds.maxY) {
+      return -1;
+    }
+    return (iy - bounds.minY) * width + (ix - bounds.minX);
+  };
+
+  const has = (ix: number, iy: number): boolean => {
+    const index = indexOf(ix, iy);
+    return index >= 0 && (bits[index >>> 5] & (1 << (index & 31))) !== 0;
+  };
+
+  const forEach = (visit: (ix: number, iy: number) => void) => {
+    if (!bounds) {
+      return;
+    }
+    let index = 0;
+    for (let iy = bounds.minY; iy <= bounds.maxY; iy += 1) {
+      for (let ix = bounds.minX; ix <= bounds.maxX; ix += 1) {
+        if (bits[index >>> 5] & (1 << (index & 31))) {
+          visit(ix, iy);
+        }
+        index += 1;
+      }
+    }
+  };
+
+  return { count, bounds, has, indexOf, forEach };
+}
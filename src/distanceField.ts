@@ -0,0 +1,80 @@
+const FAR = 1e20;
+
+/**
+ * Squared Euclidean distance from every pixel center to the nearest center of a pixel whose value
+ * is 0, using the Felzenszwalb & Huttenlocher separable transform. `stepX` and `stepY` are the
+ * pixel sizes, so rectangular pixels measure correctly and distances come out in those units.
+ */
+export function squaredDistanceToZeros(
+  data: Uint8Array,
+  width: number,
+  height: number,
+  stepX: number,
+  stepY: number,
+): Float64Array {
+  const squared = new Float64Array(width * height);
+  for (let i = 0; i < squared.length; i += 1) {
+    squared[i] = data[i] ? FAR : 0;
+  }
+
+  const size = Math.max(width, height);
+  const f = new Float64Array(size);
+  const d = new Float64Array(size);
+  const v = new Int32Array(size);
+  const z = new Float64Array(size + 1);
+
+  for (let x = 0; x < width; x += 1) {
+    for (let y = 0; y < height; y += 1) {
+      f[y] = squared[y * width + x];
+    }
+    distanceTransform1d(f, height, stepY, d, v, z);
+    for (let y = 0; y < height; y += 1) {
+      squared[y * width + x] = d[y];
+    }
+  }
+  for (let y = 0; y < height; y += 1) {
+    const row = y * width;
+    for (let x = 0; x < width; x += 1) {
+      f[x] = squared[row + x];
+    }
+    distanceTransform1d(f, width, stepX, d, v, z);
+    for (let x = 0; x < width; x += 1) {
+      squared[row + x] = d[x];
+    }
+  }
+  return squared;
+}
+
+function distanceTransform1d(
+  f: Float64Array,
+  n: number,
+  step: number,
+  d: Float64Array,
+  v: Int32Array,
+  z: Float64Array,
+) {
+  const w = step * step;
+  let k = 0;
+  v[0] = 0;
+  z[0] = -Infinity;
+  z[1] = Infinity;
+  for (let q = 1; q < n; q += 1) {
+    let s = (f[q] + w * q * q - (f[v[k]] + w * v[k] * v[k])) / (2 * w * (q - v[k]));
+    while (s <= z[k]) {
+      k -= 1;
+      s = (f[q] + w * q * q - (f[v[k]] + w * v[k] * v[k])) / (2 * w * (q - v[k]));
+    }
+    k += 1;
+    v[k] = q;
+    z[k] = s;
+    z[k + 1] = Infinity;
+  }
+  k = 0;
+  for (let q = 0; q < n; q += 1) {
+    while (z[k + 1] < q) {
+      k += 1;
+    }
+    const delta = q - v[k];
+    d[q] = w * delta * delta + f[v[k]];
+  }
+}
@@ -0,0 +1,237 @@
+import polygonClipping from "polygon-clipping";
+import { worldToGrid } from "./geometry";
+import {
+  latticeCellArea,
+  latticeCellCenter,
+  latticeCellHalfExtents,
+  latticeCellOutline,
+  latticePitch,
+} from "./lattice";
+import { rasterizeRegion, sampleRasterAtGridPoint } from "./raster";
+import type { RasterOptions } from "./raster";
+import type { ClipRing, GridState, MultiPolygon, Vec2 } from "./state";
+
+const COVERAGE_EPSILON = 1e-9;
+
+/** A cell the raster test and the exact test classify differently. */
+export interface CellDisagreement {
+  /** Grid indices of the cell. */
+  cell: Vec2;
+  rasterInside: boolean;
+  exactInside: boolean;
+  /** Exact fraction of the cell's area inside the region. */
+  coverage: number;
+}
+
+/**
+ * Per-cell comparison of the raster test against exact polygon clipping, before the component
+ * rule is applied. An empty `disagreements` list means the raster classified every cell that could
+ * be clipped correctly.
+ */
+export interface ExactVerificationReport {
+  rasterCells: number;
+  exactCells: number;
+  disagreements: CellDisagreement[];
+  /**
+   * Cells polygon-clipping failed on, which happens with near-coincident edges. They count
+   * towards neither `exactCells` nor `disagreements`.
+   */
+  unverifiableCells: number;
+}
+
+/**
+ * Classifies every cell of the grid that can reach the region twice: once through the raster, as
+ * rasterizeRegion does, and once by clipping the cell polygon against the region and comparing
+ * areas. A cell is exactly inside when at least `minCoverage` of its area lies in the region and,
+ * with a clearance, no region edge comes closer than that, so partially covered cells never pass
+ * a clearance. Slow next to the raster, so it is meant for checking a final alignment.
+ */
+export function verifyCellsExactly(
+  region: MultiPolygon | null,
+  grid: GridState,
+  options: RasterOptions = {},
+): ExactVerificationReport | null {
+  const raster = rasterizeRegion(region, grid, options);
+  if (!region || !raster) {
+    return null;
+  }
+  const { clearance = 0, minCoverage = 1 } = options;
+  const regionGrid = region.map((polygon) =>
+    polygon.map((ring) =>
+      ring.map(([x, y]) => {
+        const point = worldToGrid({ x, y }, grid);
+        return [point.x, point.y] as [number, number];
+      }),
+    ),
+  );
+  const regionBounds = computeBounds(regionGrid);
+  const pitch = latticePitch(grid.kind, grid.spacingX, grid.spacingY);
+  const half = latticeCellHalfExtents(grid.kind, grid.spacingX, grid.spacingY);
+  const outline = latticeCellOutline(grid.kind, grid.spacingX, grid.spacingY);
+  const cellArea = latticeCellArea(grid.kind, grid.spacingX, grid.spacingY);
+
+  const report: ExactVerificationReport = {
+    rasterCells: 0,
+    exactCells: 0,
+    disagreements: [],
+    unverifiableCells: 0,
+  };
+  const bounds = raster.gridSampleBounds;
+  for (let gy = bounds.minY; gy <= bounds.maxY; gy += 1) {
+    for (let gx = bounds.minX; gx <= bounds.maxX; gx += 1) {
+      const center = latticeCellCenter(grid.kind, pitch, gx, gy);
+      const rasterInside = sampleRasterAtGridPoint(raster, center) === 1;
+      const overlapsRegion =
+        center.x + half.x > regionBounds.minX &&
+        center.x - half.x < regionBounds.maxX &&
+        center.y + half.y > regionBounds.minY &&
+        center.y - half.y < regionBounds.maxY;
+      if (!overlapsRegion && !rasterInside) {
+        continue;
+      }
+
+      const cellRing: ClipRing = outline.map((corner) => [
+        center.x + corner.x,
+        center.y + corner.y,
+      ]);
+      cellRing.push(cellRing[0]);
+      if (rasterInside) {
+        report.rasterCells += 1;
+      }
+      const coverage = overlapsRegion ? measureCoverage(regionGrid, cellRing, cellArea) : 0;
+      if (coverage === null) {
+        report.unverifiableCells += 1;
+        continue;
+      }
+      const exactInside =
+        coverage >= minCoverage - COVERAGE_EPSILON &&
+        (clearance <= 0 || distanceBetweenOutlines(cellRing, regionGrid) >= clearance);
+
+      if (exactInside) {
+        report.exactCells += 1;
+      }
+      if (rasterInside !== exactInside) {
+        report.disagreements.push({ cell: { x: gx, y: gy }, rasterInside, exactInside, coverage });
+      }
+    }
+  }
+  return report;
+}
+
+/** Fraction of the cell inside the region, or null when polygon-clipping cannot clip the pair. */
+function measureCoverage(
+  region: MultiPolygon,
+  cellRing: ClipRing,
+  cellArea: number,
+): number | null {
+  try {
+    const overlap = polygonClipping.intersection(region, [[cellRing]]) as MultiPolygon;
+    return measureArea(overlap) / cellArea;
+  } catch {
+    return null;
+  }
+}
+
+function computeBounds(region: MultiPolygon) {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  region.forEach((polygon) => {
+    polygon.forEach((ring) => {
+      ring.forEach(([x, y]) => {
+        minX = Math.min(minX, x);
+        minY = Math.min(minY, y);
+        maxX = Math.max(maxX, x);
+        maxY = Math.max(maxY, y);
+      });
+    });
+  });
+  return { minX, minY, maxX, maxY };
+}
+
+/** Area of a clipping result: each outer ring minus its holes. */
+function measureArea(region: MultiPolygon): number {
+  let area = 0;
+  region.forEach((polygon) => {
+    polygon.forEach((ring, index) => {
+      const ringArea = Math.abs(signedRingArea(ring));
+      area += index === 0 ? ringArea : -ringArea;
+    });
+  });
+  return area;
+}
+
+function signedRingArea(ring: ClipRing): number {
+  let sum = 0;
+  for (let i = 0; i < ring.length; i += 1) {
+    const [ax, ay] = ring[i];
+    const [bx, by] = ring[(i + 1) % ring.length];
+    sum += ax * by - bx * ay;
+  }
+  return sum / 2;
+}
+
+/** Smallest distance between any edge of `ring` and any edge of `region`. */
+function distanceBetweenOutlines(ring: ClipRing, region: MultiPolygon): number {
+  let best = Infinity;
+  for (let i = 0; i + 1 < ring.length; i += 1) {
+    const a = ring[i];
+    const b = ring[i + 1];
+    region.forEach((polygon) => {
+      polygon.forEach((regionRing) => {
+        for (let j = 0; j < regionRing.length; j += 1) {
+          const c = regionRing[j];
+          const d = regionRing[(j + 1) % regionRing.length];
+          best = Math.min(best, segmentDistance(a, b, c, d));
+        }
+      });
+    });
+  }
+  return best;
+}
+
+function segmentDistance(
+  a: [number, number],
+  b: [number, number],
+  c: [number, number],
+  d: [number, number],
+): number {
+  if (segmentsIntersect(a, b, c, d)) {
+    return 0;
+  }
+  return Math.min(
+    pointSegmentDistance(a, c, d),
+    pointSegmentDistance(b, c, d),
+    pointSegmentDistance(c, a, b),
+    pointSegmentDistance(d, a, b),
+  );
+}
+
+function segmentsIntersect(
+  a: [number, number],
+  b: [number, number],
+  c: [number, number],
+  d: [number, number],
+): boolean {
+  const d1 = cross(c, d, a);
+  const d2 = cross(c, d, b);
+  const d3 = cross(a, b, c);
+  const d4 = cross(a, b, d);
+  return d1 * d2 < 0 && d3 * d4 < 0;
+}
+
+function cross(o: [number, number], p: [number, number], q: [number, number]): number {
+  return (p[0] - o[0]) * (q[1] - o[1]) - (p[1] - o[1]) * (q[0] - o[0]);
+}
+
+function pointSegmentDistance(p: [number, number], a: [number, number], b: [number, number]) {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lengthSq = dx * dx + dy * dy;
+  const t =
+    lengthSq > 0
+      ? Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lengthSq))
+      : 0;
+  return Math.hypot(p[0] - (a[0] + t * dx), p[1] - (a[1] + t * dy));
+}
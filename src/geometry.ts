@@ -58,6 +58,49 @@ export function distance(a: Vec2, b: Vec2): number {
   return Math.hypot(a.x - b.x, a.y - b.y);
 }
 
+/**
+ * Douglas–Peucker simplification: keeps both endpoints and, between any two kept points, the one
+ * farthest from the segment joining them while that distance exceeds `tolerance`.
+ */
+export function simplifyPolyline(points: Vec2[], tolerance: number): Vec2[] {
+  if (points.length <= 2) {
+    return points.slice();
+  }
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+  const spans: [number, number][] = [[0, points.length - 1]];
+  for (let span = spans.pop(); span; span = spans.pop()) {
+    const [first, last] = span;
+    let farthest = -1;
+    let farthestDistance = tolerance;
+    for (let index = first + 1; index < last; index += 1) {
+      const point = points[index];
+      const offset = distance(point, closestPointOnSegment(point, points[first], points[last]));
+      if (offset > farthestDistance) {
+        farthest = index;
+        farthestDistance = offset;
+      }
+    }
+    if (farthest >= 0) {
+      keep[farthest] = 1;
+      spans.push([first, farthest], [farthest, last]);
+    }
+  }
+  return points.filter((_, index) => keep[index]);
+}
+
+export function closestPointOnSegment(point: Vec2, start: Vec2, end: Vec2): Vec2 {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t =
+    lengthSq > 0
+      ? Math.max(0, Math.min(1, ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSq))
+      : 0;
+  return { x: start.x + dx * t, y: start.y + dy * t };
+}
+
 export function polylineToClipPolygon(points: Vec2[]): ClipPolygon | null {
   if (points.length < 3) {
     return null;
@@ -1,15 +1,26 @@
+import { gridToWorld } from "./geometry";
+import { latticePitch } from "./lattice";
 import type { CameraState, GridState, Vec2 } from "./state";
 
 const MIN_AXIS_SCREEN_PX = 32;
 
-export function computeAxisTipWorld(grid: GridState, camera: CameraState): Vec2 {
-  const baseLength = grid.spacing * 0.8;
+/**
+ * Gizmo axis lengths in grid units: the lattice pitch along each axis, scaled by a shared factor so
+ * the shorter axis stays at least MIN_AXIS_SCREEN_PX long and the cell's proportions still show.
+ */
+function computeAxisLengths(grid: GridState, camera: CameraState): Vec2 {
+  const pitch = latticePitch(grid.kind, grid.spacingX, grid.spacingY);
   const minWorldLength = MIN_AXIS_SCREEN_PX / camera.zoom;
-  const length = Math.max(baseLength, minWorldLength);
-  const dirX = Math.cos(grid.angle);
-  const dirY = Math.sin(grid.angle);
-  return {
-    x: grid.origin.x + dirX * length,
-    y: grid.origin.y + dirY * length,
-  };
+  const scale = Math.max(0.8, minWorldLength / Math.min(pitch.x, pitch.y));
+  return { x: pitch.x * scale, y: pitch.y * scale };
+}
+
+/** Tip of the grid's X axis, the handle used to rotate the grid. */
+export function computeAxisTipWorld(grid: GridState, camera: CameraState): Vec2 {
+  return gridToWorld({ x: computeAxisLengths(grid, camera).x, y: 0 }, grid);
+}
+
+/** Tip of the grid's Y axis; it only shows the row pitch and has no handle. */
+export function computeYAxisTipWorld(grid: GridState, camera: CameraState): Vec2 {
+  return gridToWorld({ x: 0, y: computeAxisLengths(grid, camera).y }, grid);
 }
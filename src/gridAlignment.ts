@@ -1,6 +1,39 @@
 import { rotate } from "./geometry";
-import { RASTER_RESOLUTION, countLargestComponentWithOffset, rasterizeRegion } from "./raster";
-import type { GridState, MultiPolygon, Vec2 } from "./state";
+import { buildCandidateAngles } from "./candidateAngles";
+import type { CandidateAngle } from "./candidateAngles";
+import { verifyCellsExactly } from "./exactInclusion";
+import type { ExactVerificationReport } from "./exactInclusion";
+import {
+  RASTER_RESOLUTION,
+  countCellsWithOffset,
+  findCellsWithOffset,
+  precomputeCellAcceptance,
+  rasterizeRegion,
+  viewRasterAtSpacing,
+} from "./raster";
+import {
+  DEFAULT_TIE_BREAKERS,
+  EMPTY_ALIGNMENT_SCORES,
+  compareAlignmentScores,
+  scoreCellBlock,
+} from "./alignmentScoring";
+import type { AlignmentObjective, AlignmentScores } from "./alignmentScoring";
+import {
+  latticeBasis,
+  latticeCellArea,
+  latticePitch,
+  latticeSymmetryDegrees,
+} from "./lattice";
+import type { RasterOptions } from "./raster";
+import { DEFAULT_COMPONENT_RULE } from "./state";
+import type {
+  ComponentRule,
+  GridKind,
+  GridState,
+  MultiPolygon,
+  RasterResult,
+  Vec2,
+} from "./state";
 
 const ROTATION_STEP_DEGREES = 5;
 const YIELD_BUDGET_MS = 12;
@@ -8,22 +41,92 @@ const YIELD_BUDGET_MS = 12;
 export interface GridAlignmentResult {
   angle: number;
   origin: Vec2;
+  /** Cell width and height of this alignment; differ from the input only with spacing search. */
+  spacingX: number;
+  spacingY: number;
   cellCount: number;
+  /** Secondary objectives measured for this alignment, used to break cell-count ties. */
+  scores: AlignmentScores;
+  /** Present when the continuous refinement stage ran after the coarse sweep. */
+  refinement?: GridRefinementReport;
+  /** Exact polygon-clipping check of this alignment; only the best candidate is verified. */
+  verification?: ExactVerificationReport;
+}
+
+/** Ranked alignments, best first, with no two describing (nearly) the same lattice. */
+export interface GridAlignmentOutcome {
+  candidates: GridAlignmentResult[];
+  stats: GridAlignmentStats;
+}
+
+export interface GridRefinementReport {
+  /** Best result of the coarse lattice sweep, before refinement. */
+  coarse: GridAlignmentResult;
+  gainedCells: number;
+  evaluations: number;
 }
 
 export interface GridAlignmentStats {
   durationMs: number;
+  /** Orientations that produced at least one sample. */
   orientations: number;
+  /** Offsets tried per orientation, summed over every searched spacing. */
   offsetsPerOrientation: number;
   samples: number;
+  /**
+   * "kept" when a warm start's neighbourhood won, "fellBack" when the full sweep had to run, and
+   * "none" without a usable warm start.
+   */
+  warmStart: "none" | "kept" | "fellBack";
+  /** Every coarse angle tried, in the order searched. */
+  angles: CandidateAngleReport[];
+  /** Grid origin the sweep's offsets are measured from. */
+  origin: Vec2;
   timings: {
     anglePrepMs: number;
+    /** Rasters built during the coarse sweep. */
     rasterMs: number;
     offsetsMs: number;
-    rasterDetail?: RasterTimings;
+    refineMs: number;
+    verifyMs: number;
+    /** Breakdown of every raster built, refinement included. */
+    rasterDetail: RasterTimings;
   };
 }
 
+/** A coarse angle with the best cell count its offset sweep found. */
+export interface CandidateAngleReport extends CandidateAngle {
+  cellCount: number;
+  /** Only every few offsets were tried: the angle fed a warm start's global estimate. */
+  sparse: boolean;
+  /** Offset sweep at the spacing of the angle's best sample; null when nothing was rasterized. */
+  landscape: OffsetLandscape | null;
+}
+
+/**
+ * Cell counts over one angle's offset lattice, row-major, with -1 for offsets that were skipped.
+ * Offset (column, row) is `column * step.x, row * step.y` in grid units from the search origin.
+ */
+export interface OffsetLandscape {
+  columns: number;
+  rows: number;
+  step: Vec2;
+  spacingX: number;
+  spacingY: number;
+  counts: number[];
+}
+
+/** Snapshot passed to onProgress while a search runs. */
+export interface GridAlignmentProgress {
+  /** "sweep" while orientations are being tried, "refine" once refinement has started. */
+  stage: "sweep" | "refine";
+  orientationsDone: number;
+  orientationsTotal: number;
+  /** Cell count of the best-ranked sample so far. */
+  bestCount: number;
+  elapsedMs: number;
+}
+
 export type RasterTimings = {
   boundsMs: number;
   fillMs: number;
@@ -31,7 +134,38 @@ export type RasterTimings = {
   componentMs: number;
 };
 
-const ANGLE_BIN_RESOLUTION = 1; // degrees
+const DEFAULT_CANDIDATE_COUNT = 5;
+const REFINE_CANDIDATE_COUNT = 3;
+const DISTINCT_ANGLE_TOLERANCE_DEGREES = 1.5;
+const DISTINCT_OFFSET_TOLERANCE_FRACTION = 0.25;
+const REFINE_MIN_ANGLE_STEP_DEGREES = 0.05;
+const REFINE_MIN_OFFSET_STEP_FRACTION = 1 / 256;
+const REFINE_MAX_EVALUATIONS = 400;
+const REFINE_RASTER_CACHE_SIZE = 8;
+const MAX_SPACING_VALUES = 41;
+const AREA_EPSILON = 1e-9;
+/** Warm starts sweep this far, in degrees, to either side of the previous angle. */
+const WARM_START_ANGLE_SPAN_DEGREES = 2;
+const WARM_START_ANGLE_STEP_DEGREES = 1;
+/** The warm start's global estimate tries every n-th offset along each axis. */
+const WARM_START_ESTIMATE_STRIDE = 4;
+/**
+ * The full sweep only replaces a warm start whose result is clearly worse: the estimate must still
+ * win on the primary goal with this many cells taken off its count.
+ */
+const WARM_START_FALLBACK_MARGIN_CELLS = 2;
+
+/** A point of the search space: grid angle plus origin offset measured in grid coordinates. */
+interface AlignmentSample {
+  gridKind: GridKind;
+  angle: number;
+  spacingX: number;
+  spacingY: number;
+  offset: Vec2;
+  cellCount: number;
+  /** Only measured for samples that could affect the ranking. */
+  scores?: AlignmentScores;
+}
 
 function throwIfAborted(signal?: AbortSignal) {
   if (signal?.aborted) {
@@ -43,151 +177,869 @@ function yieldToMainThread() {
   return new Promise<void>((resolve) => requestAnimationFrame(() => resolve()));
 }
 
+/**
+ * Restricts which parts of the grid pose the search may change. `lockAngle` keeps the current angle
+ * and searches offsets only, `lockOrigin` keeps the current origin and searches angles only, and
+ * `slideAxis` lets the origin move along a single grid axis.
+ */
+export interface AlignmentConstraints {
+  lockAngle: boolean;
+  lockOrigin: boolean;
+  slideAxis: "x" | "y" | null;
+}
+
+export const UNCONSTRAINED_ALIGNMENT: AlignmentConstraints = {
+  lockAngle: false,
+  lockOrigin: false,
+  slideAxis: null,
+};
+
+/**
+ * Varies the grid spacing over min..max in `step` increments alongside angle and offset. The range
+ * applies to the X spacing; the Y spacing scales with it so the cell aspect ratio is kept.
+ * `goal: "area"` ranks by covered area (cells × cell area). `goal: "targetCount"` looks for the
+ * largest spacing that still fits at least `targetCount` cells, falling back to the most cells when
+ * no spacing reaches the target.
+ */
+export interface SpacingSearch {
+  min: number;
+  max: number;
+  step: number;
+  goal: "area" | "targetCount";
+  targetCount?: number;
+}
+
+/** Search settings that can be sent to the alignment worker as-is. */
+export interface GridAlignmentSearchOptions {
+  /** Run the continuous refinement stage after the coarse sweep. Defaults to true. */
+  refine?: boolean;
+  /** Number of distinct candidates to return. Defaults to 5. */
+  candidateCount?: number;
+  /**
+   * Objectives applied in order when candidates tie on cell count. Defaults to clearance, then
+   * centering, then compactness; an empty list keeps the first candidate found.
+   */
+  tieBreakers?: AlignmentObjective[];
+  constraints?: AlignmentConstraints;
+  /** Search spacing as well; when omitted the input grid spacing is kept. */
+  spacingSearch?: SpacingSearch | null;
+  /** How covered cells are grouped and counted. Defaults to the largest edge-connected area. */
+  componentRule?: ComponentRule;
+  /** Minimum gap, in world units, kept between accepted cells and the region boundary. */
+  clearance?: number;
+  /** Fraction of a cell's raster pixels that must be covered for it to count. Defaults to 1. */
+  minCoverage?: number;
+  /** Check the best candidate against exact polygon clipping. Defaults to false. */
+  verifyExact?: boolean;
+  /**
+   * Result of a previous search on a slightly different region. Its neighbourhood is searched
+   * first, and the full sweep only runs when a sparse sample of it finds something better. Ignored
+   * when constraints pin the angle or origin, or when the spacing no longer matches.
+   */
+  warmStart?: GridAlignmentHint | null;
+}
+
+/** The pose of an earlier alignment, as accepted by `warmStart`. */
+export type GridAlignmentHint = Pick<
+  GridAlignmentResult,
+  "angle" | "origin" | "spacingX" | "spacingY"
+>;
+
+export interface GridAlignmentOptions extends GridAlignmentSearchOptions {
+  signal?: AbortSignal;
+  /**
+   * How long the search may run before yielding a frame. Pass Infinity when running off the main
+   * thread, where there is nothing to yield to.
+   */
+  yieldBudgetMs?: number;
+  /** Called after every orientation of the sweep and every refined seed. */
+  onProgress?: (progress: GridAlignmentProgress) => void;
+  /**
+   * Called whenever a better sample takes the lead, so callers can preview it before the search
+   * ends. Sweep samples carry no scores yet and report EMPTY_ALIGNMENT_SCORES.
+   */
+  onBestSoFar?: (best: GridAlignmentResult) => void;
+}
+
 export async function findBestGridAlignmentAsync(
   region: MultiPolygon | null,
   grid: GridState,
-  options: { signal?: AbortSignal } = {},
-): Promise<GridAlignmentResult | null> {
-  const { signal } = options;
+  options: GridAlignmentOptions = {},
+): Promise<GridAlignmentOutcome | null> {
+  const {
+    signal,
+    yieldBudgetMs = YIELD_BUDGET_MS,
+    refine = true,
+    candidateCount = DEFAULT_CANDIDATE_COUNT,
+    tieBreakers = DEFAULT_TIE_BREAKERS,
+    constraints = UNCONSTRAINED_ALIGNMENT,
+    spacingSearch = null,
+    componentRule = DEFAULT_COMPONENT_RULE,
+    clearance = 0,
+    minCoverage = 1,
+    verifyExact = false,
+    onProgress,
+    onBestSoFar,
+    warmStart = null,
+  } = options;
+  const startTime = performance.now();
+  const compare = (a: AlignmentSample, b: AlignmentSample) =>
+    compareSamples(a, b, tieBreakers, spacingSearch);
   let samples = 0;
 
   let lastYieldTime = performance.now();
   const maybeYield = async () => {
     samples += 1;
     const now = performance.now();
-    if (now - lastYieldTime >= YIELD_BUDGET_MS) {
+    if (now - lastYieldTime >= yieldBudgetMs) {
       await yieldToMainThread();
       throwIfAborted(signal);
       lastYieldTime = performance.now();
     }
   };
 
-  const candidateAngles = buildCandidateAngles(region);
-  const offsetStep = grid.spacing / RASTER_RESOLUTION;
-  let best: GridAlignmentResult | null = null;
+  // Candidate angles are shared by every spacing, and per angle a raster is shared by every spacing
+  // that stays aligned with its pixels. Rasters carry enough margin for the largest spacing.
+  const candidateAngles: CandidateAngle[] = constraints.lockAngle
+    ? [{ angle: grid.angle, sources: ["locked"] }]
+    : buildCandidateAngles(region, grid);
+  const anglePrepMs = performance.now() - startTime;
+  const aspect = grid.spacingY / grid.spacingX;
+  const spacings = buildSpacingValues(grid.spacingX, spacingSearch).map((spacingX) => ({
+    x: spacingX,
+    y: spacingX * aspect,
+  }));
+  const marginSpacing = Math.max(...spacings.map((spacing) => Math.max(spacing.x, spacing.y)));
+  const offsetSteps = buildOffsetSteps(constraints);
+  const capacity = Math.max(1, Math.floor(candidateCount));
+  const pool: AlignmentSample[] = [];
+  const bestPerAngle: AlignmentSample[] = [];
   let orientations = 0;
+  let orientationsDone = 0;
+  let orientationsTotal = candidateAngles.length;
   let rasterMs = 0;
   let offsetsMs = 0;
+  let refineMs = 0;
   const rasterDetail = { boundsMs: 0, fillMs: 0, prefixMs: 0, componentMs: 0 };
+  const rasterOptions: RasterOptions = {
+    timings: rasterDetail,
+    componentRule,
+    clearance,
+    minCoverage,
+  };
+  let leader: AlignmentSample | null = null;
+  const reportProgress = (stage: GridAlignmentProgress["stage"], ranked: AlignmentSample[]) => {
+    // The refined pool starts over from the first seed, so only strict improvements on the
+    // previous leader are reported.
+    const best = ranked[0];
+    if (best && (!leader || compare(best, leader) > 0)) {
+      leader = best;
+      onBestSoFar?.(
+        toAlignmentResult(grid, { ...best, scores: best.scores ?? EMPTY_ALIGNMENT_SCORES }),
+      );
+    }
+    onProgress?.({
+      stage,
+      orientationsDone,
+      orientationsTotal,
+      bestCount: ranked[0]?.cellCount ?? 0,
+      elapsedMs: performance.now() - startTime,
+    });
+  };
 
   if (!region) {
     return null;
   }
 
-  for (const angle of candidateAngles) {
-    throwIfAborted(signal);
-    const rasterStart = performance.now();
-    const baseGrid: GridState = {
-      origin: { ...grid.origin },
-      angle,
-      spacing: grid.spacing,
-    };
-    const baseRaster = rasterizeRegion(region, baseGrid, rasterDetail);
-    rasterMs += performance.now() - rasterStart;
-    if (!baseRaster) {
-      continue;
-    }
-    orientations += 1;
-    for (let oy = 0; oy < RASTER_RESOLUTION; oy += 1) {
-      for (let ox = 0; ox < RASTER_RESOLUTION; ox += 1) {
-        throwIfAborted(signal);
-        const offsetStart = performance.now();
-        const offsetGrid: Vec2 = { x: ox * offsetStep, y: oy * offsetStep };
-        const count = countLargestComponentWithOffset(baseRaster, offsetGrid);
-        offsetsMs += performance.now() - offsetStart;
-        if (!best || count > best.cellCount) {
-          const offsetWorld = rotate(offsetGrid, angle);
-          const originWorld: Vec2 = {
-            x: grid.origin.x + offsetWorld.x,
-            y: grid.origin.y + offsetWorld.y,
-          };
-          best = {
+  /**
+   * Tries every `stride`-th offset of every spacing at one angle, ranking the samples into
+   * `ranked`, and returns the angle's best sample with the offset landscape of its spacing.
+   * Unscored sweeps only compare cell counts.
+   */
+  const sweepAngle = async (
+    angle: number,
+    stride: number,
+    ranked: AlignmentSample[],
+    scored: boolean,
+  ): Promise<{ best: AlignmentSample | null; landscape: OffsetLandscape | null }> => {
+    const offsetCount = Math.ceil(offsetSteps.x / stride) * Math.ceil(offsetSteps.y / stride);
+    const angleRasters: RasterResult[] = [];
+    let angleBest: AlignmentSample | null = null;
+    let bestLandscape: OffsetLandscape | null = null;
+    for (const spacing of spacings) {
+      const rasterStart = performance.now();
+      const raster = acquireRaster(
+        region,
+        grid,
+        angle,
+        spacing,
+        marginSpacing,
+        angleRasters,
+        rasterOptions,
+      );
+      rasterMs += performance.now() - rasterStart;
+      if (!raster) {
+        break;
+      }
+      const pitch = latticePitch(grid.kind, spacing.x, spacing.y);
+      const offsetStepX = pitch.x / RASTER_RESOLUTION;
+      const offsetStepY = pitch.y / RASTER_RESOLUTION;
+      // Precomputing tests one cell per pixel, so it pays off once there are at least as many
+      // offsets as pixels per cell.
+      const pixelsPerCell = (pitch.x / raster.mask.cellSizeX) * (pitch.y / raster.mask.cellSizeY);
+      if (offsetCount >= pixelsPerCell - AREA_EPSILON) {
+        precomputeCellAcceptance(raster);
+      }
+      const landscape: OffsetLandscape = {
+        columns: offsetSteps.x,
+        rows: offsetSteps.y,
+        step: { x: offsetStepX, y: offsetStepY },
+        spacingX: spacing.x,
+        spacingY: spacing.y,
+        counts: new Array<number>(offsetSteps.x * offsetSteps.y).fill(-1),
+      };
+      for (let oy = 0; oy < offsetSteps.y; oy += stride) {
+        for (let ox = 0; ox < offsetSteps.x; ox += stride) {
+          throwIfAborted(signal);
+          const offsetStart = performance.now();
+          const offsetGrid: Vec2 = { x: ox * offsetStepX, y: oy * offsetStepY };
+          const worthScoring = (unscored: AlignmentSample) =>
+            ranked.length < capacity ||
+            compare(unscored, ranked[ranked.length - 1]) >= 0 ||
+            !angleBest ||
+            compare(unscored, angleBest) >= 0;
+          const sample = measureSample(
+            raster,
             angle,
-            origin: originWorld,
-            cellCount: count,
-          };
+            offsetGrid,
+            scored && tieBreakers.length > 0,
+            worthScoring,
+          );
+          offsetsMs += performance.now() - offsetStart;
+          landscape.counts[oy * offsetSteps.x + ox] = sample.cellCount;
+          insertDistinctSample(ranked, sample, capacity, compare);
+          if (!angleBest || compare(sample, angleBest) > 0) {
+            angleBest = sample;
+            bestLandscape = landscape;
+          }
+          await maybeYield();
         }
-        await maybeYield();
       }
     }
+    return { best: angleBest, landscape: bestLandscape };
+  };
+  let angleReports: CandidateAngleReport[] = [];
+  const sweep = async (angles: CandidateAngle[]) => {
+    for (const candidate of angles) {
+      throwIfAborted(signal);
+      const { best, landscape } = await sweepAngle(candidate.angle, 1, pool, true);
+      if (best) {
+        orientations += 1;
+        bestPerAngle.push(best);
+      }
+      angleReports.push({
+        ...candidate,
+        cellCount: best?.cellCount ?? 0,
+        sparse: false,
+        landscape,
+      });
+      orientationsDone += 1;
+      reportProgress("sweep", pool);
+    }
+  };
+
+  const evaluate = createSampleEvaluator(region, grid, marginSpacing, rasterOptions);
+  let warmStartOutcome: GridAlignmentStats["warmStart"] = "none";
+  if (warmStart && acceptsWarmStart(warmStart, grid, constraints, spacingSearch)) {
+    // Search densely around the previous result, then sample the whole sweep sparsely. The full
+    // sweep only runs when that sparse estimate clearly beats the neighbourhood.
+    const localAngles = buildNeighbourhoodAngles(warmStart.angle);
+    orientationsTotal = localAngles.length + candidateAngles.length;
+    const offset = rotate(
+      { x: warmStart.origin.x - grid.origin.x, y: warmStart.origin.y - grid.origin.y },
+      -warmStart.angle,
+    );
+    const spacing = { x: warmStart.spacingX, y: warmStart.spacingY };
+    insertDistinctSample(pool, evaluate(warmStart.angle, spacing, offset, true), capacity, compare);
+    await sweep(localAngles);
+
+    const estimate: AlignmentSample[] = [];
+    for (const candidate of candidateAngles) {
+      throwIfAborted(signal);
+      const { best, landscape } = await sweepAngle(
+        candidate.angle,
+        WARM_START_ESTIMATE_STRIDE,
+        estimate,
+        false,
+      );
+      angleReports.push({
+        ...candidate,
+        cellCount: best?.cellCount ?? 0,
+        sparse: true,
+        landscape,
+      });
+      orientationsDone += 1;
+      reportProgress("sweep", pool);
+    }
+    const handicapped = estimate.length
+      ? { ...estimate[0], cellCount: estimate[0].cellCount - WARM_START_FALLBACK_MARGIN_CELLS }
+      : null;
+    const estimateWins =
+      handicapped !== null && comparePrimaryGoal(handicapped, pool[0], spacingSearch) > 0;
+    if (estimateWins) {
+      warmStartOutcome = "fellBack";
+      orientationsTotal += candidateAngles.length;
+      angleReports = angleReports.filter((report) => !report.sparse);
+      await sweep(candidateAngles);
+    } else {
+      warmStartOutcome = "kept";
+    }
+  } else {
+    await sweep(candidateAngles);
   }
 
-  // Optional: callers can inspect timings here if needed in the future.
+  if (!pool.length) {
+    return null;
+  }
+  const withScores = (sample: AlignmentSample): AlignmentSample & { scores: AlignmentScores } => {
+    const scores =
+      sample.scores ??
+      evaluate(sample.angle, sampleSpacing(sample), sample.offset, true).scores ??
+      EMPTY_ALIGNMENT_SCORES;
+    return { ...sample, scores };
+  };
+  const describe = (sample: AlignmentSample) => toAlignmentResult(grid, withScores(sample));
+  const finish = (candidates: GridAlignmentResult[]): GridAlignmentOutcome => {
+    const verifyStart = performance.now();
+    const best = candidates[0];
+    if (verifyExact && best) {
+      const bestGrid: GridState = {
+        ...grid,
+        origin: best.origin,
+        angle: best.angle,
+        spacingX: best.spacingX,
+        spacingY: best.spacingY,
+      };
+      try {
+        const verification = verifyCellsExactly(region, bestGrid, {
+          componentRule,
+          clearance,
+          minCoverage,
+        });
+        best.verification = verification ?? undefined;
+      } catch {
+        // The check only reports on the search, so a failure leaves the best one unverified.
+      }
+    }
+    const now = performance.now();
+    return {
+      candidates,
+      stats: {
+        durationMs: now - startTime,
+        orientations,
+        offsetsPerOrientation: offsetSteps.x * offsetSteps.y * spacings.length,
+        samples,
+        warmStart: warmStartOutcome,
+        angles: angleReports,
+        origin: { ...grid.origin },
+        timings: {
+          anglePrepMs,
+          rasterMs,
+          offsetsMs,
+          refineMs,
+          verifyMs: now - verifyStart,
+          rasterDetail,
+        },
+      },
+    };
+  };
+  if (!refine) {
+    return finish(pool.map(describe));
+  }
+
+  // Seeds are the distinct candidates plus the strongest orientations, since neighbouring angles
+  // often refine to a better lattice than the one they were merged into. Refined samples can
+  // converge, so they are de-duplicated again before ranking.
+  const topAngles = bestPerAngle
+    .slice()
+    .sort((a, b) => compare(b, a))
+    .slice(0, REFINE_CANDIDATE_COUNT);
+  const seeds = pool.concat(topAngles.filter((sample) => !pool.includes(sample)));
+  const refinedPool: AlignmentSample[] = [];
+  const reports = new Map<AlignmentSample, GridRefinementReport>();
+  const refineStart = performance.now();
+  for (const seed of seeds) {
+    const outcome = await refineSample(seed, constraints, evaluate, async () => {
+      throwIfAborted(signal);
+      await maybeYield();
+    });
+    // Refinement counts on a raster anchored at the search origin, which can miscount cells at
+    // sub-pixel offsets on hex grids, so the result is measured again at its own pose.
+    const coarse = withScores(seed);
+    const measured =
+      outcome.sample === seed
+        ? coarse
+        : measureAtPose(region, grid, outcome.sample, rasterOptions) ?? coarse;
+    const refined = compare(measured, coarse) >= 0 ? measured : coarse;
+    reports.set(refined, {
+      coarse: describe(seed),
+      gainedCells: refined.cellCount - seed.cellCount,
+      evaluations: outcome.evaluations,
+    });
+    insertDistinctSample(refinedPool, refined, capacity, compare);
+    reportProgress("refine", refinedPool);
+  }
+  refineMs = performance.now() - refineStart;
 
-  return best;
+  return finish(
+    refinedPool.map((sample) => ({
+      ...describe(sample),
+      refinement: reports.get(sample),
+    })),
+  );
 }
 
-function buildCandidateAngles(region: MultiPolygon | null): number[] {
-  const coarseStep = ROTATION_STEP_DEGREES;
+/**
+ * Ranks by the primary goal first (cell count, or the spacing search goal), then by the
+ * tie-breaking objectives in order. Samples without measured scores only compare on the goal.
+ */
+function compareSamples(
+  a: AlignmentSample,
+  b: AlignmentSample,
+  objectives: readonly AlignmentObjective[],
+  spacingSearch: SpacingSearch | null,
+): number {
+  const primary = comparePrimaryGoal(a, b, spacingSearch);
+  if (primary !== 0) {
+    return primary;
+  }
+  if (!a.scores || !b.scores) {
+    return 0;
+  }
+  return compareAlignmentScores(a.scores, b.scores, objectives);
+}
 
-  if (!region) {
-    return [0];
+function comparePrimaryGoal(
+  a: AlignmentSample,
+  b: AlignmentSample,
+  spacingSearch: SpacingSearch | null,
+): number {
+  if (spacingSearch?.goal === "area") {
+    const areaDelta =
+      a.cellCount * latticeCellArea(a.gridKind, a.spacingX, a.spacingY) -
+      b.cellCount * latticeCellArea(b.gridKind, b.spacingX, b.spacingY);
+    if (Math.abs(areaDelta) > AREA_EPSILON) {
+      return areaDelta;
+    }
+    return a.cellCount - b.cellCount;
+  }
+  if (spacingSearch?.goal === "targetCount") {
+    const target = spacingSearch.targetCount ?? 1;
+    const aFits = a.cellCount >= target;
+    const bFits = b.cellCount >= target;
+    if (aFits !== bFits) {
+      return aFits ? 1 : -1;
+    }
+    if (aFits && a.spacingX !== b.spacingX) {
+      return a.spacingX - b.spacingX;
+    }
+    if (a.cellCount !== b.cellCount) {
+      return a.cellCount - b.cellCount;
+    }
+    return a.spacingX - b.spacingX;
   }
+  return a.cellCount - b.cellCount;
+}
 
-  const bins = computeEdgeHistogram(region);
-  const occupied = Array.from(bins.entries())
-    .filter(([, value]) => value)
-    .map(([deg]) => deg)
-    .sort((a, b) => a - b);
+/**
+ * X spacing values to try, ascending. Without a spacing search only the current spacing is used.
+ */
+function buildSpacingValues(current: number, spacingSearch: SpacingSearch | null): number[] {
+  if (!spacingSearch) {
+    return [current];
+  }
+  const min = Math.max(1e-3, Math.min(spacingSearch.min, spacingSearch.max));
+  const max = Math.max(min, spacingSearch.min, spacingSearch.max);
+  const span = max - min;
+  const minStep = span / (MAX_SPACING_VALUES - 1);
+  const step = Math.max(spacingSearch.step, minStep, 1e-6);
+  const count = Math.floor(span / step + 1e-9) + 1;
+  const values: number[] = [];
+  for (let i = 0; i < count; i += 1) {
+    values.push(min + i * step);
+  }
+  if (max - values[values.length - 1] > 1e-9) {
+    values.push(max);
+  }
+  return values;
+}
+
+type SampleComparator = (a: AlignmentSample, b: AlignmentSample) => number;
 
-  if (!occupied.length) {
-    return [0];
+/**
+ * Counts the largest component at one offset. Scores are only measured when requested and when
+ * `worthScoring` accepts the count, because most samples lose on count alone.
+ */
+function measureSample(
+  raster: RasterResult,
+  angle: number,
+  offset: Vec2,
+  withScores: boolean,
+  worthScoring: (unscored: AlignmentSample) => boolean = () => true,
+): AlignmentSample {
+  const { gridKind, gridSpacingX: spacingX, gridSpacingY: spacingY } = raster;
+  if (!withScores) {
+    const cellCount = countCellsWithOffset(raster, offset);
+    return { gridKind, angle, spacingX, spacingY, offset, cellCount };
+  }
+  const { count, cells } = findCellsWithOffset(raster, offset);
+  const unscored: AlignmentSample = {
+    gridKind,
+    angle,
+    spacingX,
+    spacingY,
+    offset,
+    cellCount: count,
+  };
+  if (!worthScoring(unscored)) {
+    return unscored;
   }
+  return { ...unscored, scores: scoreCellBlock(raster, offset, cells) };
+}
 
-  const filled = new Set<number>();
-  const addSegment = (start: number, end: number) => {
-    const span = end - start;
-    const maxStep = coarseStep;
-    const needed = Math.max(1, Math.ceil(span / maxStep));
-    const actualStep = span / needed;
-    for (let i = 0; i <= needed; i += 1) {
-      filled.add(start + actualStep * i);
+/**
+ * Inserts a sample into a list kept sorted best first, where no two entries describe the same
+ * lattice. A better sample replaces the duplicates it covers; an equal or worse duplicate is
+ * dropped, so earlier samples win full ties.
+ */
+function insertDistinctSample(
+  pool: AlignmentSample[],
+  sample: AlignmentSample,
+  capacity: number,
+  compare: SampleComparator,
+) {
+  if (pool.length >= capacity && compare(sample, pool[pool.length - 1]) <= 0) {
+    return;
+  }
+  for (let i = pool.length - 1; i >= 0; i -= 1) {
+    if (!isSameLattice(pool[i], sample)) {
+      continue;
     }
-  };
+    if (compare(pool[i], sample) >= 0) {
+      return;
+    }
+    pool.splice(i, 1);
+  }
+  let index = pool.length;
+  while (index > 0 && compare(pool[index - 1], sample) < 0) {
+    index -= 1;
+  }
+  pool.splice(index, 0, sample);
+  if (pool.length > capacity) {
+    pool.length = capacity;
+  }
+}
 
-  for (let i = 0; i < occupied.length; i += 1) {
-    const current = occupied[i];
-    const next = i === occupied.length - 1 ? occupied[0] + 90 : occupied[i + 1];
-    addSegment(current, next);
+/**
+ * Lattices repeat along their basis vectors and under their rotational symmetry (see
+ * latticeSymmetryDegrees). Two samples match when their spacings agree, their angles agree modulo
+ * that symmetry and their origins differ by (nearly) a whole lattice vector. Offsets are compared
+ * in a's frame, so samples a full symmetry step apart count as distinct.
+ */
+function isSameLattice(a: AlignmentSample, b: AlignmentSample): boolean {
+  if (
+    a.gridKind !== b.gridKind ||
+    Math.abs(a.spacingX - b.spacingX) > a.spacingX * 1e-6 ||
+    Math.abs(a.spacingY - b.spacingY) > a.spacingY * 1e-6
+  ) {
+    return false;
   }
+  const period = toRad(latticeSymmetryDegrees(a.gridKind, a.spacingX, a.spacingY));
+  const angleDelta = Math.abs(a.angle - b.angle) % period;
+  if (Math.min(angleDelta, period - angleDelta) > toRad(DISTINCT_ANGLE_TOLERANCE_DEGREES)) {
+    return false;
+  }
+  const aWorld = rotate(a.offset, a.angle);
+  const bWorld = rotate(b.offset, b.angle);
+  const delta = rotate({ x: bWorld.x - aWorld.x, y: bWorld.y - aWorld.y }, -a.angle);
+  // Express the offset difference in basis coordinates; whole numbers mean the same lattice.
+  const [u, v] = latticeBasis(a.gridKind, a.spacingX, a.spacingY);
+  const det = u.x * v.y - u.y * v.x;
+  const su = (delta.x * v.y - delta.y * v.x) / det;
+  const sv = (u.x * delta.y - u.y * delta.x) / det;
+  return (
+    wrappedDistance(su, 1) <= DISTINCT_OFFSET_TOLERANCE_FRACTION &&
+    wrappedDistance(sv, 1) <= DISTINCT_OFFSET_TOLERANCE_FRACTION
+  );
+}
 
-  const normalized = Array.from(filled).map((deg) => ((deg % 90) + 90) % 90);
-  const unique = Array.from(new Set(normalized)).sort((a, b) => a - b);
-  return unique.map((deg) => toRad(deg));
+function wrappedDistance(value: number, period: number): number {
+  const wrapped = ((value % period) + period) % period;
+  return Math.min(wrapped, period - wrapped);
 }
 
-function computeEdgeHistogram(region: MultiPolygon): Map<number, boolean> {
-  const bins = new Map<number, boolean>();
-  const binSize = ANGLE_BIN_RESOLUTION;
+/** Number of lattice offsets tried along each grid axis; a locked axis only tries offset 0. */
+function buildOffsetSteps(constraints: AlignmentConstraints): { x: number; y: number } {
+  if (constraints.lockOrigin) {
+    return { x: 1, y: 1 };
+  }
+  return {
+    x: constraints.slideAxis === "y" ? 1 : RASTER_RESOLUTION,
+    y: constraints.slideAxis === "x" ? 1 : RASTER_RESOLUTION,
+  };
+}
 
-  const addAngle = (angleRad: number) => {
-    let deg = ((toDeg(angleRad) % 90) + 90) % 90;
-    deg = Math.min(89.9999, deg);
-    const bin = Math.floor(deg / binSize) * binSize;
-    bins.set(bin, true);
+function toAlignmentResult(
+  grid: GridState,
+  sample: AlignmentSample & { scores: AlignmentScores },
+): GridAlignmentResult {
+  const offsetWorld = rotate(sample.offset, sample.angle);
+  return {
+    angle: sample.angle,
+    origin: {
+      x: grid.origin.x + offsetWorld.x,
+      y: grid.origin.y + offsetWorld.y,
+    },
+    spacingX: sample.spacingX,
+    spacingY: sample.spacingY,
+    cellCount: sample.cellCount,
+    scores: sample.scores,
   };
+}
 
-  region.forEach((polygon) => {
-    polygon.forEach((ring) => {
-      for (let i = 0; i < ring.length; i += 1) {
-        const [x1, y1] = ring[i];
-        const [x2, y2] = ring[(i + 1) % ring.length];
-        const dx = x2 - x1;
-        const dy = y2 - y1;
-        if (Math.abs(dx) < 1e-9 && Math.abs(dy) < 1e-9) {
-          continue;
+/**
+ * Measures a sample on a raster anchored at its own pose, as the applied grid is rasterized,
+ * keeping the sample's offset from the search origin.
+ */
+function measureAtPose(
+  region: MultiPolygon,
+  grid: GridState,
+  sample: AlignmentSample,
+  rasterOptions: RasterOptions,
+): AlignmentSample | null {
+  const offsetWorld = rotate(sample.offset, sample.angle);
+  const raster = rasterizeRegion(
+    region,
+    {
+      origin: { x: grid.origin.x + offsetWorld.x, y: grid.origin.y + offsetWorld.y },
+      angle: sample.angle,
+      kind: sample.gridKind,
+      spacingX: sample.spacingX,
+      spacingY: sample.spacingY,
+    },
+    { ...rasterOptions, maskOnly: true },
+  );
+  if (!raster) {
+    return null;
+  }
+  return { ...measureSample(raster, sample.angle, { x: 0, y: 0 }, true), offset: sample.offset };
+}
+
+function sampleSpacing(sample: AlignmentSample): Vec2 {
+  return { x: sample.spacingX, y: sample.spacingY };
+}
+
+type SampleEvaluator = (
+  angle: number,
+  spacing: Vec2,
+  offset: Vec2,
+  withScores?: boolean,
+) => AlignmentSample;
+
+/**
+ * Scores arbitrary (angle, offset) pairs. Rasters are cached per angle because pattern search moves
+ * along the offset axes far more often than it rotates.
+ */
+function createSampleEvaluator(
+  region: MultiPolygon,
+  grid: GridState,
+  marginSpacing: number,
+  rasterOptions: RasterOptions,
+): SampleEvaluator {
+  const rasters = new Map<number, RasterResult[]>();
+  return (angle, spacing, offset, withScores = false) => {
+    let angleRasters = rasters.get(angle);
+    if (!angleRasters) {
+      if (rasters.size >= REFINE_RASTER_CACHE_SIZE) {
+        const oldest = rasters.keys().next().value;
+        if (oldest !== undefined) {
+          rasters.delete(oldest);
         }
-        const angle = Math.atan2(dy, dx);
-        addAngle(angle);
       }
-    });
-  });
+      angleRasters = [];
+      rasters.set(angle, angleRasters);
+    }
+    const raster = acquireRaster(
+      region,
+      grid,
+      angle,
+      spacing,
+      marginSpacing,
+      angleRasters,
+      rasterOptions,
+    );
+    if (!raster) {
+      return {
+        gridKind: grid.kind,
+        angle,
+        spacingX: spacing.x,
+        spacingY: spacing.y,
+        offset,
+        cellCount: 0,
+        scores: { ...EMPTY_ALIGNMENT_SCORES },
+      };
+    }
+    return measureSample(raster, angle, offset, withScores);
+  };
+}
+
+/**
+ * Returns a raster for `angle` viewed at `spacing`. A raster from `cache` is reused when the
+ * spacing's offset lattice (spacing / RASTER_RESOLUTION) is a whole multiple of its cell size along
+ * both axes, so cell edges still fall on pixel boundaries; otherwise a new one is built and cached.
+ * Callers only query views per offset, so cached rasters skip the component pass.
+ */
+function acquireRaster(
+  region: MultiPolygon,
+  grid: GridState,
+  angle: number,
+  spacing: Vec2,
+  marginSpacing: number,
+  cache: RasterResult[],
+  options: RasterOptions,
+): RasterResult | null {
+  const pitch = latticePitch(grid.kind, spacing.x, spacing.y);
+  const offsetStep: Vec2 = { x: pitch.x / RASTER_RESOLUTION, y: pitch.y / RASTER_RESOLUTION };
+  for (const raster of cache) {
+    if (
+      isWholeMultiple(offsetStep.x, raster.mask.cellSizeX) &&
+      isWholeMultiple(offsetStep.y, raster.mask.cellSizeY)
+    ) {
+      return viewRasterAtSpacing(raster, spacing.x, spacing.y);
+    }
+  }
+  const raster = rasterizeRegion(
+    region,
+    {
+      origin: { ...grid.origin },
+      angle,
+      kind: grid.kind,
+      spacingX: Math.max(spacing.x, marginSpacing),
+      spacingY: Math.max(spacing.y, marginSpacing),
+    },
+    { ...options, cellSize: offsetStep, maskOnly: true },
+  );
+  if (!raster) {
+    return null;
+  }
+  cache.push(raster);
+  return viewRasterAtSpacing(raster, spacing.x, spacing.y);
+}
 
-  return bins;
+function isWholeMultiple(value: number, unit: number): boolean {
+  const ratio = value / unit;
+  return Math.round(ratio) >= 1 && Math.abs(ratio - Math.round(ratio)) < 1e-6;
 }
 
-function toDeg(rad: number): number {
-  return (rad * 180) / Math.PI;
+/**
+ * Compass search over angle and both offset axes. Each round tries one step in every direction and
+ * moves to the first strict improvement; when none improves, all steps are halved. The search ends
+ * once the steps drop below their floors or the evaluation budget runs out. It chases cell count
+ * only; tie-breakers rank the refined results afterwards.
+ */
+async function refineSample(
+  seed: AlignmentSample,
+  constraints: AlignmentConstraints,
+  evaluate: SampleEvaluator,
+  checkpoint: () => Promise<void>,
+): Promise<{ sample: AlignmentSample; evaluations: number }> {
+  const spacing = sampleSpacing(seed);
+  const pitch = latticePitch(seed.gridKind, spacing.x, spacing.y);
+  let current = seed;
+  let angleStep = toRad(ROTATION_STEP_DEGREES) / 2;
+  // Offset steps are kept as a fraction of a cell so both axes shrink together.
+  let offsetFraction = 1 / RASTER_RESOLUTION / 2;
+  const minAngleStep = toRad(REFINE_MIN_ANGLE_STEP_DEGREES);
+  const allowAngle = !constraints.lockAngle;
+  const allowX = !constraints.lockOrigin && constraints.slideAxis !== "y";
+  const allowY = !constraints.lockOrigin && constraints.slideAxis !== "x";
+  let evaluations = 0;
+
+  while (evaluations < REFINE_MAX_EVALUATIONS) {
+    const moves: [number, number, number][] = [];
+    if (allowAngle && angleStep >= minAngleStep) {
+      moves.push([angleStep, 0, 0], [-angleStep, 0, 0]);
+    }
+    if (offsetFraction >= REFINE_MIN_OFFSET_STEP_FRACTION) {
+      const stepX = pitch.x * offsetFraction;
+      const stepY = pitch.y * offsetFraction;
+      if (allowX) {
+        moves.push([0, stepX, 0], [0, -stepX, 0]);
+      }
+      if (allowY) {
+        moves.push([0, 0, stepY], [0, 0, -stepY]);
+      }
+    }
+    if (!moves.length) {
+      break;
+    }
+
+    let improved = false;
+    for (const [da, dx, dy] of moves) {
+      await checkpoint();
+      const angle = current.angle + da;
+      const offset = { x: current.offset.x + dx, y: current.offset.y + dy };
+      const candidate = evaluate(angle, spacing, offset);
+      evaluations += 1;
+      if (candidate.cellCount > current.cellCount) {
+        current = candidate;
+        improved = true;
+        break;
+      }
+    }
+    if (!improved) {
+      angleStep /= 2;
+      offsetFraction /= 2;
+    }
+  }
+
+  return { sample: current, evaluations };
+}
+
+/**
+ * A warm start only applies when the search may move the pose freely and the hint was found at
+ * one of the spacings being searched.
+ */
+function acceptsWarmStart(
+  hint: GridAlignmentHint,
+  grid: GridState,
+  constraints: AlignmentConstraints,
+  spacingSearch: SpacingSearch | null,
+): boolean {
+  if (constraints.lockAngle || constraints.lockOrigin || constraints.slideAxis) {
+    return false;
+  }
+  if (spacingSearch) {
+    const min = Math.min(spacingSearch.min, spacingSearch.max);
+    const max = Math.max(spacingSearch.min, spacingSearch.max);
+    return hint.spacingX >= min - AREA_EPSILON && hint.spacingX <= max + AREA_EPSILON;
+  }
+  return (
+    Math.abs(hint.spacingX - grid.spacingX) <= grid.spacingX * 1e-6 &&
+    Math.abs(hint.spacingY - grid.spacingY) <= grid.spacingY * 1e-6
+  );
+}
+
+function buildNeighbourhoodAngles(center: number): CandidateAngle[] {
+  const angles: CandidateAngle[] = [];
+  const steps = Math.round(WARM_START_ANGLE_SPAN_DEGREES / WARM_START_ANGLE_STEP_DEGREES);
+  for (let i = -steps; i <= steps; i += 1) {
+    angles.push({
+      angle: center + toRad(i * WARM_START_ANGLE_STEP_DEGREES),
+      sources: ["warmStart"],
+    });
+  }
+  return angles;
 }
 
 function toRad(deg: number): number {
@@ -0,0 +1,146 @@
+import type { AlignmentConstraints, GridAlignmentResult, SpacingSearch } from "./gridAlignment";
+import type { ComponentRule, GridState, MultiPolygon } from "./state";
+
+const DEFAULT_HISTORY_LIMIT = 100;
+
+/**
+ * The undoable part of the app state. Regions, candidate lists and settings objects are kept by
+ * reference, so they must be replaced rather than mutated in place; the grid is copied. The
+ * settings that shape counting and search travel with the candidates so a restored candidate
+ * list always matches the settings it was computed under.
+ */
+export interface HistorySnapshot {
+  region: MultiPolygon | null;
+  grid: GridState;
+  alignCandidates: GridAlignmentResult[];
+  alignCandidateIndex: number;
+  autoAlignEnabled: boolean;
+  componentRule: ComponentRule;
+  clearance: number;
+  minCoverage: number;
+  alignConstraints: AlignmentConstraints;
+  spacingSearch: SpacingSearch | null;
+}
+
+/** One undoable step: the state before and after it. */
+interface HistoryCommand {
+  label: string;
+  before: HistorySnapshot;
+  after: HistorySnapshot;
+}
+
+export interface HistoryOptions {
+  capture: () => HistorySnapshot;
+  restore: (snapshot: HistorySnapshot) => void;
+  /** Called whenever undo or redo availability may have changed. */
+  onChange?: () => void;
+  limit?: number;
+}
+
+export interface EditHistory {
+  /** Runs `mutate` and records its effect as one step, unless it changed nothing. */
+  record(label: string, mutate: () => void): void;
+  /**
+   * Starts a step that spans many changes, such as a drag. Everything up to `end` becomes one
+   * step; beginning again first ends the open one.
+   */
+  begin(label: string): void;
+  end(): void;
+  undo(): boolean;
+  redo(): boolean;
+  /** Label of the step undo would revert, or null when there is none. */
+  undoLabel(): string | null;
+  redoLabel(): string | null;
+}
+
+export function createEditHistory(options: HistoryOptions): EditHistory {
+  const { capture, restore, onChange, limit = DEFAULT_HISTORY_LIMIT } = options;
+  const undoStack: HistoryCommand[] = [];
+  const redoStack: HistoryCommand[] = [];
+  let pending: { label: string; before: HistorySnapshot } | null = null;
+
+  const push = (label: string, before: HistorySnapshot) => {
+    const after = capture();
+    if (sameSnapshot(before, after)) {
+      return;
+    }
+    undoStack.push({ label, before, after });
+    if (undoStack.length > limit) {
+      undoStack.shift();
+    }
+    redoStack.length = 0;
+    onChange?.();
+  };
+
+  const end = () => {
+    if (!pending) {
+      return;
+    }
+    const { label, before } = pending;
+    pending = null;
+    push(label, before);
+  };
+
+  return {
+    record(label, mutate) {
+      end();
+      const before = capture();
+      mutate();
+      push(label, before);
+    },
+    begin(label) {
+      end();
+      pending = { label, before: capture() };
+    },
+    end,
+    undo() {
+      end();
+      const command = undoStack.pop();
+      if (!command) {
+        return false;
+      }
+      restore(command.before);
+      redoStack.push(command);
+      onChange?.();
+      return true;
+    },
+    redo() {
+      end();
+      const command = redoStack.pop();
+      if (!command) {
+        return false;
+      }
+      restore(command.after);
+      undoStack.push(command);
+      onChange?.();
+      return true;
+    },
+    undoLabel() {
+      return undoStack[undoStack.length - 1]?.label ?? null;
+    },
+    redoLabel() {
+      return redoStack[redoStack.length - 1]?.label ?? null;
+    },
+  };
+}
+
+function sameSnapshot(a: HistorySnapshot, b: HistorySnapshot): boolean {
+  return (
+    a.region === b.region &&
+    (a.alignCandidates === b.alignCandidates ||
+      (!a.alignCandidates.length && !b.alignCandidates.length)) &&
+    a.alignCandidateIndex === b.alignCandidateIndex &&
+    a.autoAlignEnabled === b.autoAlignEnabled &&
+    a.componentRule === b.componentRule &&
+    a.clearance === b.clearance &&
+    a.minCoverage === b.minCoverage &&
+    a.alignConstraints === b.alignConstraints &&
+    a.spacingSearch === b.spacingSearch &&
+    a.grid.kind === b.grid.kind &&
+    a.grid.angle === b.grid.angle &&
+    a.grid.origin.x === b.grid.origin.x &&
+    a.grid.origin.y === b.grid.origin.y &&
+    a.grid.spacingX === b.grid.spacingX &&
+    a.grid.spacingY === b.grid.spacingY
+  );
+}
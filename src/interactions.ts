@@ -1,14 +1,54 @@
-import { applyPolygonBoolean, polylineToClipPolygon, screenToWorld, worldToScreen } from "./geometry";
+import {
+  applyPolygonBoolean,
+  distance,
+  polylineToClipPolygon,
+  screenToWorld,
+  worldToScreen,
+} from "./geometry";
 import { computeAxisTipWorld } from "./gizmo";
 import { clampZoom } from "./camera";
-import type { AppState, GridGizmoHover, InteractionMode, Vec2 } from "./state";
+import {
+  deleteRegionVertex,
+  findRegionEdgeMidpoint,
+  findRegionVertex,
+  insertRegionVertex,
+  moveRegionVertex,
+  regionEdgeMidpoint,
+  regionVertexPosition,
+  repairRegion,
+} from "./regionEditing";
+import { ANGLE_SNAP_STEP_DEGREES, snapDrawingPoint } from "./snapping";
+import type { SnapResult } from "./snapping";
+import { lassoOutline, shapeOutline } from "./shapes";
+import type { ShapeTool } from "./shapes";
+import type {
+  AppState,
+  GridGizmoHover,
+  InteractionMode,
+  MultiPolygon,
+  RegionVertexRef,
+  Vec2,
+} from "./state";
 import type { ToolbarControls } from "./toolbar";
+import type { EditHistory } from "./history";
 
 const FIRST_VERTEX_CLICK_RADIUS = 14;
 const FIRST_VERTEX_HOVER_RADIUS = 14;
 const ORIGIN_HANDLE_RADIUS = 18;
 const AXIS_HANDLE_DISTANCE = 10;
 const ROTATION_HANDLE_MIN_T = 0.4;
+const VERTEX_HANDLE_RADIUS = 10;
+const MIDPOINT_HANDLE_RADIUS = 8;
+const SNAP_RADIUS = 10;
+/** Shape drags shorter than this, in pixels, are taken as stray clicks and dropped. */
+const MIN_SHAPE_DRAG = 4;
+/** Screen distance, in pixels, the pointer must travel before the lasso records another point. */
+const LASSO_SAMPLE_SPACING = 2;
+const SHAPE_NAMES: Record<ShapeTool, string> = {
+  rectangle: "rectangle",
+  ellipse: "ellipse",
+  ngon: "N-gon",
+};
 
 interface InteractionOptions {
   canvas: HTMLCanvasElement;
@@ -17,10 +57,12 @@ interface InteractionOptions {
   markRasterDirty: () => void;
   cancelAlignment: () => void;
   triggerAutoAlign: () => void;
+  history: EditHistory;
 }
 
 export function setupInteractions(options: InteractionOptions): void {
-  const { canvas, state, toolbar, markRasterDirty, cancelAlignment, triggerAutoAlign } = options;
+  const { canvas, state, toolbar, markRasterDirty, cancelAlignment, triggerAutoAlign, history } =
+    options;
 
   let activePointerId: number | null = null;
   let isPanning = false;
@@ -28,6 +70,13 @@ export function setupInteractions(options: InteractionOptions): void {
   const activeTouchPoints = new Map<number, Vec2>();
   let touchGesture: TouchGestureState | null = null;
   const isWindowsPlatform = navigator.userAgent.toLowerCase().includes("windows");
+  /** World offset from the pointer to the dragged vertex, so grabbing off-centre does not jump. */
+  let vertexGrabOffset: Vec2 = { x: 0, y: 0 };
+  /** Region as it was when the vertex drag began, to tell a plain selection click from an edit. */
+  let vertexEditStart: MultiPolygon | null = null;
+  /** Whether Shift is held, which snaps drawn segments to angle steps. */
+  let angleSnapHeld = false;
+  let hoverPointer: Vec2 | null = null;
 
   canvas.addEventListener("pointerdown", onPointerDown);
   canvas.addEventListener("pointermove", onPointerMove);
@@ -40,6 +89,12 @@ export function setupInteractions(options: InteractionOptions): void {
     finalizePolygon();
   });
   canvas.addEventListener("contextmenu", (event) => event.preventDefault());
+  window.addEventListener("keydown", onKeyDown);
+  window.addEventListener("keyup", (event) => {
+    if (event.key === "Shift") {
+      setAngleSnapHeld(false);
+    }
+  });
 
   type TouchGestureState = {
     prevCentroid: Vec2;
@@ -51,6 +106,7 @@ export function setupInteractions(options: InteractionOptions): void {
   function onPointerDown(event: PointerEvent) {
     const pointer = { x: event.clientX, y: event.clientY };
     canvas.setPointerCapture(event.pointerId);
+    angleSnapHeld = event.shiftKey;
 
     if (event.pointerType === "touch") {
       activeTouchPoints.set(event.pointerId, pointer);
@@ -76,6 +132,11 @@ export function setupInteractions(options: InteractionOptions): void {
       return;
     }
 
+    if (state.regionEditing && beginVertexEdit(pointer, event.altKey)) {
+      event.preventDefault();
+      return;
+    }
+
     const gizmoHit =
       state.interactionMode === "drawing_polygon" ? null : hitTestGridGizmo(pointer);
     if (gizmoHit) {
@@ -86,6 +147,8 @@ export function setupInteractions(options: InteractionOptions): void {
         state.drawingCursorWorld = null;
         toolbar.updateModeButtons();
       }
+      // The whole drag undoes as one step.
+      history.begin(gizmoHit === "dragging_grid_origin" ? "Move grid" : "Rotate grid");
       state.interactionMode = gizmoHit;
       state.hoveredGizmo = gizmoHit === "dragging_grid_origin" ? "origin" : "axis";
       event.preventDefault();
@@ -105,6 +168,21 @@ export function setupInteractions(options: InteractionOptions): void {
     }
 
     const worldPoint = screenToWorld(pointer, state.camera);
+    if (state.drawTool === "lasso") {
+      cancelAlignment();
+      state.drawingLasso = [worldPoint];
+      state.interactionMode = "drawing_lasso";
+      event.preventDefault();
+      return;
+    }
+    if (state.drawTool !== "polygon") {
+      cancelAlignment();
+      const start = snapDrawingCursor(worldPoint)?.point ?? worldPoint;
+      state.drawingShape = { tool: state.drawTool, start, end: start, constrain: event.shiftKey };
+      state.interactionMode = "drawing_shape";
+      event.preventDefault();
+      return;
+    }
     if (
       state.interactionMode === "drawing_polygon" &&
       state.drawingPolygon.length >= 3 &&
@@ -115,14 +193,16 @@ export function setupInteractions(options: InteractionOptions): void {
       return;
     }
     cancelAlignment();
-    state.drawingPolygon.push(worldPoint);
+    const placed = snapDrawingCursor(worldPoint)?.point ?? worldPoint;
+    state.drawingPolygon.push(placed);
     state.interactionMode = "drawing_polygon";
-    state.drawingCursorWorld = worldPoint;
+    state.drawingCursorWorld = placed;
   }
 
   function onPointerMove(event: PointerEvent) {
     const pointer = { x: event.clientX, y: event.clientY };
     const pointerWorld = screenToWorld(pointer, state.camera);
+    angleSnapHeld = event.shiftKey;
     const isActivePointer = activePointerId === event.pointerId;
 
     if (event.pointerType === "touch") {
@@ -167,6 +247,41 @@ export function setupInteractions(options: InteractionOptions): void {
       return;
     }
 
+    if (isActivePointer && state.interactionMode === "drawing_lasso") {
+      // Coalesced events keep fast pen strokes from turning into long straight chords.
+      const samples = event.getCoalescedEvents?.() ?? [event];
+      (samples.length ? samples : [event]).forEach((sample) => {
+        extendLasso(screenToWorld({ x: sample.clientX, y: sample.clientY }, state.camera));
+      });
+      updatePointerHover(pointer, pointerWorld);
+      return;
+    }
+
+    if (isActivePointer && state.interactionMode === "drawing_shape" && state.drawingShape) {
+      state.drawingShape = {
+        ...state.drawingShape,
+        end: snapDrawingCursor(pointerWorld)?.point ?? pointerWorld,
+        constrain: event.shiftKey,
+      };
+      updatePointerHover(pointer, pointerWorld);
+      return;
+    }
+
+    if (isActivePointer && state.interactionMode === "dragging_vertex") {
+      const vertex = state.selectedVertex;
+      if (state.region && vertex) {
+        if (state.region === vertexEditStart) {
+          cancelAlignment();
+        }
+        state.region = moveRegionVertex(state.region, vertex, {
+          x: pointerWorld.x + vertexGrabOffset.x,
+          y: pointerWorld.y + vertexGrabOffset.y,
+        });
+      }
+      updatePointerHover(pointer, pointerWorld);
+      return;
+    }
+
     if (isActivePointer && state.interactionMode === "rotating_grid") {
       state.autoAlignEnabled = false;
       toolbar.setAutoAlignChecked(false);
@@ -205,10 +320,20 @@ export function setupInteractions(options: InteractionOptions): void {
       lastPointerPosition = null;
     }
     isPanning = false;
+    if (state.interactionMode === "dragging_vertex") {
+      commitRegionEdit();
+    }
+    if (state.interactionMode === "drawing_shape") {
+      finishShape();
+    }
+    if (state.interactionMode === "drawing_lasso") {
+      finishLasso();
+    }
     if (state.interactionMode !== "drawing_polygon") {
       state.interactionMode = "idle";
       state.drawingCursorWorld = null;
     }
+    history.end();
     updatePointerHover(pointer, pointerWorld);
   }
 
@@ -251,6 +376,136 @@ export function setupInteractions(options: InteractionOptions): void {
     updatePointerHover(screenPoint, worldPoint);
   }
 
+  function onKeyDown(event: KeyboardEvent) {
+    if (event.key === "Shift") {
+      setAngleSnapHeld(true);
+      return;
+    }
+    if (event.key !== "Delete" && event.key !== "Backspace") {
+      return;
+    }
+    const target = event.target;
+    if (
+      target instanceof HTMLInputElement ||
+      target instanceof HTMLSelectElement ||
+      target instanceof HTMLTextAreaElement
+    ) {
+      return;
+    }
+    const vertex = state.selectedVertex;
+    if (!state.regionEditing || !vertex || state.interactionMode !== "idle") {
+      return;
+    }
+    event.preventDefault();
+    deleteVertex(vertex);
+  }
+
+  /**
+   * Starts dragging the vertex under the pointer, or inserts one at the edge midpoint under it and
+   * drags that. With Alt the vertex is deleted instead. Returns false when nothing was hit.
+   */
+  function beginVertexEdit(pointer: Vec2, remove: boolean): boolean {
+    if (!state.region) {
+      return false;
+    }
+    const pointerWorld = screenToWorld(pointer, state.camera);
+    const vertex = hitTestRegionVertex(pointer);
+    const edge = vertex ? null : hitTestEdgeMidpoint(pointer);
+    if (!vertex && !edge) {
+      state.selectedVertex = null;
+      return false;
+    }
+    if (remove) {
+      if (vertex) {
+        deleteVertex(vertex);
+      }
+      return !!vertex;
+    }
+    vertexEditStart = state.region;
+    let grabbed = vertex;
+    const midpoint = edge ? regionEdgeMidpoint(state.region, edge) : null;
+    if (edge && midpoint) {
+      cancelAlignment();
+      history.begin("Insert vertex");
+      state.region = insertRegionVertex(state.region, edge, midpoint);
+      grabbed = { ...edge, vertex: edge.vertex + 1 };
+    } else {
+      history.begin("Move vertex");
+    }
+    const position = grabbed ? regionVertexPosition(state.region, grabbed) : null;
+    if (!grabbed || !position) {
+      history.end();
+      return false;
+    }
+    vertexGrabOffset = { x: position.x - pointerWorld.x, y: position.y - pointerWorld.y };
+    state.selectedVertex = grabbed;
+    state.hoveredEdge = null;
+    state.interactionMode = "dragging_vertex";
+    return true;
+  }
+
+  function deleteVertex(vertex: RegionVertexRef) {
+    cancelAlignment();
+    history.record("Delete vertex", () => {
+      if (state.region) {
+        state.region = repairRegion(deleteRegionVertex(state.region, vertex));
+      }
+      clearAlignCandidates();
+    });
+    state.selectedVertex = null;
+    state.hoveredVertex = null;
+    state.hoveredEdge = null;
+    afterRegionEdit();
+  }
+
+  /**
+   * Repairs the dragged ring on release; onPointerUp then closes the step with history.end. A
+   * click that only selected a vertex changed nothing, so it leaves the candidates and search be.
+   */
+  function commitRegionEdit() {
+    const edited = state.region;
+    if (edited === vertexEditStart) {
+      return;
+    }
+    state.region = repairRegion(edited);
+    if (state.region !== edited) {
+      // Repair can renumber or drop rings, so the selection may no longer point anywhere.
+      state.selectedVertex = null;
+    }
+    clearAlignCandidates();
+    afterRegionEdit();
+  }
+
+  function clearAlignCandidates() {
+    // Candidates from the previous search describe the old region.
+    state.alignCandidates = [];
+    state.alignCandidateIndex = 0;
+  }
+
+  function afterRegionEdit() {
+    toolbar.updateCandidateNav();
+    markRasterDirty();
+    if (state.autoAlignEnabled) {
+      triggerAutoAlign();
+    }
+  }
+
+  function hitTestRegionVertex(pointer: Vec2): RegionVertexRef | null {
+    if (!state.region) {
+      return null;
+    }
+    const world = screenToWorld(pointer, state.camera);
+    return findRegionVertex(state.region, world, VERTEX_HANDLE_RADIUS / state.camera.zoom);
+  }
+
+  function hitTestEdgeMidpoint(pointer: Vec2): RegionVertexRef | null {
+    if (!state.region) {
+      return null;
+    }
+    const world = screenToWorld(pointer, state.camera);
+    return findRegionEdgeMidpoint(state.region, world, MIDPOINT_HANDLE_RADIUS / state.camera.zoom);
+  }
+
   function hitTestGridGizmo(pointer: Vec2): InteractionMode | null {
     const handle = detectGizmoHandle(pointer);
     if (handle === "origin") {
@@ -264,20 +519,57 @@ export function setupInteractions(options: InteractionOptions): void {
 
   function finalizePolygon() {
     cancelAlignment();
-    const polygon = polylineToClipPolygon(state.drawingPolygon);
+    const points = state.drawingPolygon;
     state.drawingPolygon = [];
     state.drawingCursorWorld = null;
     state.hoveredFirstVertex = false;
-    if (!polygon) {
-      state.interactionMode = "idle";
+    state.interactionMode = "idle";
+    commitOutline(points, "polygon");
+  }
+
+  function finishShape() {
+    const drag = state.drawingShape;
+    state.drawingShape = null;
+    state.interactionMode = "idle";
+    if (!drag) {
       return;
     }
-    if (!state.polygonMode) {
-      state.interactionMode = "idle";
+    const start = worldToScreen(drag.start, state.camera);
+    const end = worldToScreen(drag.end, state.camera);
+    if (Math.hypot(end.x - start.x, end.y - start.y) < MIN_SHAPE_DRAG) {
+      return;
+    }
+    const outline = shapeOutline(drag, state.shapeSettings, state.grid.angle);
+    commitOutline(outline, SHAPE_NAMES[drag.tool]);
+  }
+
+  function extendLasso(point: Vec2) {
+    const last = state.drawingLasso[state.drawingLasso.length - 1];
+    if (last && distance(last, point) * state.camera.zoom < LASSO_SAMPLE_SPACING) {
       return;
     }
-    state.region = applyPolygonBoolean(state.region, polygon, state.polygonMode);
+    state.drawingLasso.push(point);
+  }
+
+  function finishLasso() {
+    const path = state.drawingLasso;
+    state.drawingLasso = [];
     state.interactionMode = "idle";
+    commitOutline(lassoOutline(path, state.camera.zoom), "freehand outline");
+  }
+
+  /** Adds or subtracts a finished outline in the current mode; every drawing tool ends here. */
+  function commitOutline(points: Vec2[], name: string) {
+    const polygon = polylineToClipPolygon(points);
+    const mode = state.polygonMode;
+    if (!polygon || !mode) {
+      return;
+    }
+    history.record(`${mode === "add" ? "Add" : "Subtract"} ${name}`, () => {
+      state.region = applyPolygonBoolean(state.region, polygon, mode);
+      clearAlignCandidates();
+    });
+    toolbar.updateCandidateNav();
     markRasterDirty();
     if (state.autoAlignEnabled) {
       triggerAutoAlign();
@@ -285,18 +577,47 @@ export function setupInteractions(options: InteractionOptions): void {
   }
 
   function updatePointerHover(screenPoint: Vec2 | null, worldPoint: Vec2 | null) {
+    hoverPointer = screenPoint;
     updateDrawingCursor(worldPoint);
     updateHoverStates(screenPoint);
   }
 
   function updateDrawingCursor(worldPoint: Vec2 | null) {
+    state.drawingSnap = worldPoint ? snapDrawingCursor(worldPoint) : null;
     if (state.interactionMode === "drawing_polygon") {
-      state.drawingCursorWorld = worldPoint;
+      state.drawingCursorWorld = state.drawingSnap?.point ?? worldPoint;
     } else if (state.drawingCursorWorld) {
       state.drawingCursorWorld = null;
     }
   }
 
+  /** Where a point placed at `worldPoint` would land; null when drawing is off or nothing snaps. */
+  function snapDrawingCursor(worldPoint: Vec2): SnapResult | null {
+    const drawing = state.interactionMode === "drawing_polygon";
+    const shaping = state.interactionMode === "drawing_shape";
+    if (!state.polygonMode || (!drawing && !shaping && state.interactionMode !== "idle")) {
+      return null;
+    }
+    return snapDrawingPoint(worldPoint, {
+      region: state.region,
+      grid: state.grid,
+      drawing: drawing ? state.drawingPolygon : [],
+      settings: state.snapSettings,
+      tolerance: SNAP_RADIUS / state.camera.zoom,
+      angleStep: angleSnapHeld ? (ANGLE_SNAP_STEP_DEGREES * Math.PI) / 180 : null,
+    });
+  }
+
+  function setAngleSnapHeld(held: boolean) {
+    if (angleSnapHeld === held) {
+      return;
+    }
+    angleSnapHeld = held;
+    if (hoverPointer) {
+      updatePointerHover(hoverPointer, screenToWorld(hoverPointer, state.camera));
+    }
+  }
+
   function updateHoverStates(screenPoint: Vec2 | null) {
     const shouldHighlightFirst =
       !!screenPoint &&
@@ -318,10 +639,26 @@ export function setupInteractions(options: InteractionOptions): void {
       state.hoveredGizmo = "axis";
       return;
     }
+    if (state.interactionMode === "dragging_vertex") {
+      state.hoveredGizmo = null;
+      state.hoveredVertex = state.selectedVertex;
+      state.hoveredEdge = null;
+      return;
+    }
+    state.hoveredVertex = null;
+    state.hoveredEdge = null;
     if (!screenPoint) {
       state.hoveredGizmo = null;
       return;
     }
+    if (state.regionEditing) {
+      state.hoveredVertex = hitTestRegionVertex(screenPoint);
+      state.hoveredEdge = state.hoveredVertex ? null : hitTestEdgeMidpoint(screenPoint);
+      if (state.hoveredVertex || state.hoveredEdge) {
+        state.hoveredGizmo = null;
+        return;
+      }
+    }
     state.hoveredGizmo = detectGizmoHandle(screenPoint);
   }
 
@@ -0,0 +1,280 @@
+import { rotate } from "./geometry";
+import type { CandidateAngleReport, GridAlignmentStats, OffsetLandscape } from "./gridAlignment";
+import { ANGLE_SOURCE_COLORS } from "./render";
+import type { Vec2 } from "./state";
+
+const CHART_PADDING = { left: 30, right: 8, top: 10, bottom: 16 };
+const POINT_RADIUS = 3;
+const LABEL_FONT = "10px ui-monospace, monospace";
+const LABEL_COLOR = "rgba(244, 244, 244, 0.6)";
+const AXIS_COLOR = "rgba(255, 255, 255, 0.15)";
+const LINE_COLOR = "rgba(244, 244, 244, 0.35)";
+const SELECTED_COLOR = "rgba(255, 186, 110, 0.95)";
+
+/** A pose picked on the chart, in world space. */
+export interface LandscapePick {
+  angle: number;
+  origin: Vec2;
+  spacingX: number;
+  spacingY: number;
+}
+
+export interface LandscapeChartHandlers {
+  onPick: (pick: LandscapePick) => void;
+}
+
+export interface LandscapeChartControls {
+  /** Plots the angles of a finished search; null hides the panel. */
+  setStats(stats: GridAlignmentStats | null): void;
+}
+
+/**
+ * Score landscape panel: best cell count per coarse angle, and a heatmap of the offset sweep at
+ * the selected angle. Clicking an angle picks its best offset; clicking a heatmap cell picks that
+ * offset.
+ */
+export function setupLandscapeChart(handlers: LandscapeChartHandlers): LandscapeChartControls {
+  const panel = document.querySelector<HTMLDetailsElement>(".landscape");
+  const angleCanvas = document.getElementById("landscape-angles") as HTMLCanvasElement | null;
+  const offsetCanvas = document.getElementById("landscape-offsets") as HTMLCanvasElement | null;
+  const label = document.getElementById("landscape-label") as HTMLElement | null;
+
+  let stats: GridAlignmentStats | null = null;
+  let reports: CandidateAngleReport[] = [];
+  let selected = -1;
+  let pickedOffset: number | null = null;
+
+  const countRange = () => {
+    const counts = reports.map((report) => report.cellCount);
+    const min = Math.min(...counts);
+    const max = Math.max(...counts);
+    return min === max ? { min: min - 1, max: max + 1 } : { min, max };
+  };
+
+  const pointPosition = (index: number, width: number, height: number): Vec2 => {
+    const first = reports[0].angle;
+    const span = reports[reports.length - 1].angle - first;
+    const range = countRange();
+    const plotWidth = width - CHART_PADDING.left - CHART_PADDING.right;
+    const plotHeight = height - CHART_PADDING.top - CHART_PADDING.bottom;
+    const t = span > 0 ? (reports[index].angle - first) / span : 0.5;
+    const u = (reports[index].cellCount - range.min) / (range.max - range.min);
+    return {
+      x: CHART_PADDING.left + t * plotWidth,
+      y: CHART_PADDING.top + (1 - u) * plotHeight,
+    };
+  };
+
+  const drawAngles = () => {
+    const ctx = angleCanvas?.getContext("2d");
+    if (!angleCanvas || !ctx) {
+      return;
+    }
+    const { width, height } = angleCanvas;
+    ctx.clearRect(0, 0, width, height);
+    if (!reports.length) {
+      return;
+    }
+    const range = countRange();
+    ctx.strokeStyle = AXIS_COLOR;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(CHART_PADDING.left, CHART_PADDING.top);
+    ctx.lineTo(CHART_PADDING.left, height - CHART_PADDING.bottom);
+    ctx.lineTo(width - CHART_PADDING.right, height - CHART_PADDING.bottom);
+    ctx.stroke();
+
+    ctx.fillStyle = LABEL_COLOR;
+    ctx.font = LABEL_FONT;
+    ctx.textBaseline = "top";
+    ctx.textAlign = "right";
+    ctx.fillText(range.max.toString(), CHART_PADDING.left - 4, CHART_PADDING.top - 4);
+    ctx.textBaseline = "bottom";
+    ctx.fillText(range.min.toString(), CHART_PADDING.left - 4, height - CHART_PADDING.bottom + 4);
+    ctx.textBaseline = "top";
+    ctx.textAlign = "left";
+    ctx.fillText(formatDegrees(reports[0].angle), CHART_PADDING.left, height - 12);
+    ctx.textAlign = "right";
+    ctx.fillText(
+      formatDegrees(reports[reports.length - 1].angle),
+      width - CHART_PADDING.right,
+      height - 12,
+    );
+
+    ctx.strokeStyle = LINE_COLOR;
+    ctx.beginPath();
+    reports.forEach((_, index) => {
+      const point = pointPosition(index, width, height);
+      if (index === 0) {
+        ctx.moveTo(point.x, point.y);
+      } else {
+        ctx.lineTo(point.x, point.y);
+      }
+    });
+    ctx.stroke();
+
+    reports.forEach((report, index) => {
+      const point = pointPosition(index, width, height);
+      const color = ANGLE_SOURCE_COLORS[report.sources[0]];
+      ctx.beginPath();
+      ctx.arc(point.x, point.y, POINT_RADIUS, 0, Math.PI * 2);
+      // Sparse estimates are hollow: their count is only a lower bound.
+      if (report.sparse) {
+        ctx.strokeStyle = color;
+        ctx.stroke();
+      } else {
+        ctx.fillStyle = color;
+        ctx.fill();
+      }
+      if (index === selected) {
+        ctx.strokeStyle = SELECTED_COLOR;
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        ctx.arc(point.x, point.y, POINT_RADIUS + 3, 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.lineWidth = 1;
+      }
+    });
+  };
+
+  const heatmapCellSize = (landscape: OffsetLandscape, width: number, height: number) =>
+    Math.floor(Math.min(width / landscape.columns, height / landscape.rows));
+
+  const drawOffsets = () => {
+    const ctx = offsetCanvas?.getContext("2d");
+    if (!offsetCanvas || !ctx) {
+      return;
+    }
+    const { width, height } = offsetCanvas;
+    ctx.clearRect(0, 0, width, height);
+    const landscape = reports[selected]?.landscape;
+    if (!landscape) {
+      return;
+    }
+    const tried = landscape.counts.filter((count) => count >= 0);
+    const low = Math.min(...tried);
+    const high = Math.max(...tried);
+    const size = heatmapCellSize(landscape, width, height);
+    landscape.counts.forEach((count, index) => {
+      const x = (index % landscape.columns) * size;
+      const y = Math.floor(index / landscape.columns) * size;
+      const t = high > low ? (count - low) / (high - low) : 1;
+      ctx.fillStyle =
+        count < 0 ? "rgba(255, 255, 255, 0.04)" : `rgba(94, 255, 154, ${0.08 + 0.82 * t})`;
+      ctx.fillRect(x + 1, y + 1, size - 2, size - 2);
+      if (index === pickedOffset || (pickedOffset === null && count === high)) {
+        ctx.strokeStyle = index === pickedOffset ? SELECTED_COLOR : "rgba(255, 255, 255, 0.8)";
+        ctx.lineWidth = 1.5;
+        ctx.strokeRect(x + 1.5, y + 1.5, size - 3, size - 3);
+      }
+    });
+  };
+
+  const updateLabel = () => {
+    if (!label) {
+      return;
+    }
+    const report = reports[selected];
+    if (!report) {
+      label.textContent = "";
+      return;
+    }
+    const summary = `${formatDegrees(report.angle)} · best ${report.cellCount}`;
+    const landscape = report.landscape;
+    if (pickedOffset === null || !landscape) {
+      label.textContent = summary;
+      return;
+    }
+    const column = pickedOffset % landscape.columns;
+    const row = Math.floor(pickedOffset / landscape.columns);
+    const count = landscape.counts[pickedOffset];
+    label.textContent = `${summary} · offset (${column}, ${row}): ${count}`;
+  };
+
+  const redraw = () => {
+    drawAngles();
+    drawOffsets();
+    updateLabel();
+  };
+
+  const pick = (index: number, offsetIndex: number) => {
+    const report = reports[index];
+    const landscape = report?.landscape;
+    if (!stats || !landscape) {
+      return;
+    }
+    const column = offsetIndex % landscape.columns;
+    const row = Math.floor(offsetIndex / landscape.columns);
+    const offsetGrid = { x: column * landscape.step.x, y: row * landscape.step.y };
+    const offset = rotate(offsetGrid, report.angle);
+    handlers.onPick({
+      angle: report.angle,
+      origin: { x: stats.origin.x + offset.x, y: stats.origin.y + offset.y },
+      spacingX: landscape.spacingX,
+      spacingY: landscape.spacingY,
+    });
+  };
+
+  const selectAngle = (index: number) => {
+    selected = index;
+    pickedOffset = null;
+    const landscape = reports[index]?.landscape;
+    if (landscape) {
+      pickedOffset = landscape.counts.indexOf(Math.max(...landscape.counts));
+      pick(index, pickedOffset);
+    }
+    redraw();
+  };
+
+  angleCanvas?.addEventListener("click", (event) => {
+    if (!reports.length) {
+      return;
+    }
+    const { width, height } = angleCanvas;
+    const x = (event.offsetX * width) / angleCanvas.clientWidth;
+    const distances = reports.map((_, index) =>
+      Math.abs(pointPosition(index, width, height).x - x),
+    );
+    selectAngle(distances.indexOf(Math.min(...distances)));
+  });
+
+  offsetCanvas?.addEventListener("click", (event) => {
+    const landscape = reports[selected]?.landscape;
+    if (!landscape) {
+      return;
+    }
+    const x = (event.offsetX * offsetCanvas.width) / offsetCanvas.clientWidth;
+    const y = (event.offsetY * offsetCanvas.height) / offsetCanvas.clientHeight;
+    const size = heatmapCellSize(landscape, offsetCanvas.width, offsetCanvas.height);
+    const column = Math.floor(x / size);
+    const row = Math.floor(y / size);
+    if (column >= landscape.columns || row >= landscape.rows) {
+      return;
+    }
+    const offsetIndex = row * landscape.columns + column;
+    if (landscape.counts[offsetIndex] < 0) {
+      return;
+    }
+    pickedOffset = offsetIndex;
+    pick(selected, offsetIndex);
+    redraw();
+  });
+
+  const setStats = (value: GridAlignmentStats | null) => {
+    stats = value;
+    reports = value ? value.angles.slice().sort((a, b) => a.angle - b.angle) : [];
+    if (panel) {
+      panel.hidden = !reports.length;
+    }
+    const best = Math.max(...reports.map((report) => report.cellCount));
+    selected = reports.findIndex((report) => report.cellCount === best);
+    pickedOffset = null;
+    redraw();
+  };
+
+  return { setStats };
+}
+
+function formatDegrees(angle: number): string {
+  return `${((angle * 180) / Math.PI).toFixed(1)}°`;
+}
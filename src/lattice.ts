@@ -0,0 +1,209 @@
+import type { CellConnectivity, GridKind, Vec2 } from "./state";
+
+/**
+ * Cell layout helpers for every grid kind. Cells are addressed by integer (x, y) indices: for
+ * rectangular grids these are plain columns and rows; hex grids use offset coordinates where odd
+ * rows (pointy) or odd columns (flat) are shifted by half a cell. Hex cells are regular, sized so
+ * `spacingX` is the distance between neighbouring centers; `spacingY` only applies to rect grids.
+ */
+
+const SQRT3 = Math.sqrt(3);
+
+const RECT_NEIGHBORS: Vec2[] = [
+  { x: 1, y: 0 },
+  { x: -1, y: 0 },
+  { x: 0, y: 1 },
+  { x: 0, y: -1 },
+];
+const RECT_CORNER_NEIGHBORS: Vec2[] = [
+  ...RECT_NEIGHBORS,
+  { x: 1, y: 1 },
+  { x: -1, y: 1 },
+  { x: 1, y: -1 },
+  { x: -1, y: -1 },
+];
+
+export function isHexKind(kind: GridKind): boolean {
+  return kind !== "rect";
+}
+
+/** Distance between index steps along each grid axis, ignoring the hex stagger. */
+export function latticePitch(kind: GridKind, spacingX: number, spacingY: number): Vec2 {
+  if (kind === "hex-pointy") {
+    return { x: spacingX, y: (spacingX * SQRT3) / 2 };
+  }
+  if (kind === "hex-flat") {
+    return { x: (spacingX * SQRT3) / 2, y: spacingX };
+  }
+  return { x: spacingX, y: spacingY };
+}
+
+/**
+ * Shift, in pitches, applied to odd rows along x (pointy hex) or to odd columns along y (flat hex).
+ */
+export function latticeStagger(kind: GridKind): Vec2 {
+  if (kind === "hex-pointy") {
+    return { x: 0.5, y: 0 };
+  }
+  if (kind === "hex-flat") {
+    return { x: 0, y: 0.5 };
+  }
+  return { x: 0, y: 0 };
+}
+
+/** Center of cell (gx, gy) in grid coordinates, before any origin offset. */
+export function latticeCellCenter(kind: GridKind, pitch: Vec2, gx: number, gy: number): Vec2 {
+  const stagger = latticeStagger(kind);
+  return {
+    x: (gx + (gy & 1) * stagger.x) * pitch.x,
+    y: (gy + (gx & 1) * stagger.y) * pitch.y,
+  };
+}
+
+/**
+ * Indices of the cells connected to (gx, gy): those sharing an edge (four for rect grids, six for
+ * hex grids), plus the diagonal rect cells when `connectivity` is "corner".
+ */
+export function latticeNeighbors(
+  kind: GridKind,
+  gx: number,
+  gy: number,
+  connectivity: CellConnectivity = "edge",
+): Vec2[] {
+  if (kind === "hex-pointy") {
+    const shift = gy & 1;
+    return [
+      { x: gx + 1, y: gy },
+      { x: gx - 1, y: gy },
+      { x: gx - 1 + shift, y: gy + 1 },
+      { x: gx + shift, y: gy + 1 },
+      { x: gx - 1 + shift, y: gy - 1 },
+      { x: gx + shift, y: gy - 1 },
+    ];
+  }
+  if (kind === "hex-flat") {
+    const shift = gx & 1;
+    return [
+      { x: gx, y: gy + 1 },
+      { x: gx, y: gy - 1 },
+      { x: gx + 1, y: gy - 1 + shift },
+      { x: gx + 1, y: gy + shift },
+      { x: gx - 1, y: gy - 1 + shift },
+      { x: gx - 1, y: gy + shift },
+    ];
+  }
+  const directions = connectivity === "corner" ? RECT_CORNER_NEIGHBORS : RECT_NEIGHBORS;
+  return directions.map((dir) => ({ x: gx + dir.x, y: gy + dir.y }));
+}
+
+/** Length of the edge shared by two neighbouring cells. */
+export function latticeSharedEdgeLength(
+  kind: GridKind,
+  spacingX: number,
+  spacingY: number,
+  from: Vec2,
+  to: Vec2,
+): number {
+  if (isHexKind(kind)) {
+    return spacingX / SQRT3;
+  }
+  return from.x !== to.x ? spacingY : spacingX;
+}
+
+export function latticeCellArea(kind: GridKind, spacingX: number, spacingY: number): number {
+  return isHexKind(kind) ? (spacingX * spacingX * SQRT3) / 2 : spacingX * spacingY;
+}
+
+/** Corners of a cell centered on the origin, counter-clockwise. */
+export function latticeCellOutline(kind: GridKind, spacingX: number, spacingY: number): Vec2[] {
+  if (isHexKind(kind)) {
+    const radius = spacingX / SQRT3;
+    const phase = kind === "hex-pointy" ? Math.PI / 6 : 0;
+    return Array.from({ length: 6 }, (_, i) => ({
+      x: Math.cos(phase + (i * Math.PI) / 3) * radius,
+      y: Math.sin(phase + (i * Math.PI) / 3) * radius,
+    }));
+  }
+  const halfX = spacingX / 2;
+  const halfY = spacingY / 2;
+  return [
+    { x: -halfX, y: -halfY },
+    { x: halfX, y: -halfY },
+    { x: halfX, y: halfY },
+    { x: -halfX, y: halfY },
+  ];
+}
+
+/** Half of the cell's axis-aligned bounding box. */
+export function latticeCellHalfExtents(kind: GridKind, spacingX: number, spacingY: number): Vec2 {
+  if (kind === "hex-pointy") {
+    return { x: spacingX / 2, y: spacingX / SQRT3 };
+  }
+  if (kind === "hex-flat") {
+    return { x: spacingX / SQRT3, y: spacingX / 2 };
+  }
+  return { x: spacingX / 2, y: spacingY / 2 };
+}
+
+/**
+ * Half width of a hex cell on the horizontal line `dy` above or below its center, clamped to the
+ * cell. Pointy cells are full width over their middle half and taper to the tips; flat cells taper
+ * linearly from the side vertices to the top and bottom edges.
+ */
+export function hexHalfWidthAt(kind: GridKind, spacingX: number, dy: number): number {
+  const radius = spacingX / SQRT3;
+  const d = Math.abs(dy);
+  if (kind === "hex-pointy") {
+    if (d <= radius / 2) {
+      return spacingX / 2;
+    }
+    return Math.max(0, (spacingX * (radius - d)) / radius);
+  }
+  return Math.max(radius / 2, radius - d / SQRT3);
+}
+
+/** Translation vectors that map the lattice onto itself. */
+export function latticeBasis(kind: GridKind, spacingX: number, spacingY: number): [Vec2, Vec2] {
+  const pitch = latticePitch(kind, spacingX, spacingY);
+  if (kind === "hex-pointy") {
+    return [
+      { x: pitch.x, y: 0 },
+      { x: pitch.x / 2, y: pitch.y },
+    ];
+  }
+  if (kind === "hex-flat") {
+    return [
+      { x: pitch.x, y: pitch.y / 2 },
+      { x: 0, y: pitch.y },
+    ];
+  }
+  return [
+    { x: pitch.x, y: 0 },
+    { x: 0, y: pitch.y },
+  ];
+}
+
+/**
+ * Rotation after which the lattice looks the same: 60° for hex grids, 90° for square cells and
+ * 180° for other rectangles, where a quarter turn swaps the cell's width and height.
+ */
+export function latticeSymmetryDegrees(kind: GridKind, spacingX: number, spacingY: number): number {
+  if (isHexKind(kind)) {
+    return 60;
+  }
+  return Math.abs(spacingX - spacingY) <= spacingX * 1e-9 ? 90 : 180;
+}
+
+/**
+ * Directions of the cell edges, in degrees modulo 180. Aligning any of them with a region edge can
+ * let a row of cells run flush along it.
+ */
+export function latticeEdgeDirections(kind: GridKind): number[] {
+  if (kind === "hex-pointy") {
+    return [30, 90, 150];
+  }
+  if (kind === "hex-flat") {
+    return [0, 60, 120];
+  }
+  return [0, 90];
+}
@@ -4,10 +4,22 @@ import { setupCanvasSizing, resetCamera } from "./camera";
 import { setupInteractions } from "./interactions";
 import { renderScene } from "./render";
 import { rasterizeRegion } from "./raster";
+import type { RasterOptions } from "./raster";
 import { setupToolbar } from "./toolbar";
 import { createInitialState } from "./state";
 import type { PolygonBooleanMode } from "./state";
-import { findBestGridAlignmentAsync } from "./gridAlignment";
+import type {
+  GridAlignmentHint,
+  GridAlignmentOutcome,
+  GridAlignmentResult,
+  GridAlignmentSearchOptions,
+  GridAlignmentStats,
+} from "./gridAlignment";
+import { findBestGridAlignmentInWorker } from "./alignmentClient";
+import { alignmentCacheKey, createAlignmentCache } from "./alignmentCache";
+import { setupLandscapeChart } from "./landscapeChart";
+import { createEditHistory } from "./history";
+import type { HistorySnapshot } from "./history";
 
 const canvas = document.getElementById("main-canvas") as HTMLCanvasElement;
 const context = canvas.getContext("2d");
@@ -20,21 +32,146 @@ const state = createInitialState();
 let rasterDirty = true;
 let alignAbortController: AbortController | null = null;
 let lastAlignStatsText = "";
+/** Leader reported by the running search, kept so it can be previewed or accepted early. */
+let searchBest: GridAlignmentResult | null = null;
+/** Pose of the alignment last applied, offered to the next search as a warm start. */
+let alignHint: GridAlignmentHint | null = null;
+const alignmentCache = createAlignmentCache();
 
 const toolbarControls = setupToolbar({
   isModeActive: (mode) => state.polygonMode === mode,
+  isEditingRegion: () => state.regionEditing,
   onModeToggle: (mode) => handleModeToggle(mode),
+  onEditToggle: () => handleEditToggle(),
   onClear: () => clearRegion(),
+  onUndo: () => history.undo(),
+  onRedo: () => history.redo(),
   onResetCamera: () => {
     resetCamera(state);
     markRasterDirty();
   },
   onToggleAutoAlign: (enabled) => {
-    state.autoAlignEnabled = enabled;
+    history.record(enabled ? "Enable auto align" : "Disable auto align", () => {
+      state.autoAlignEnabled = enabled;
+    });
     if (enabled) {
       triggerAutoAlign();
     }
   },
+  onTogglePreview: (enabled) => {
+    state.alignPreviewEnabled = enabled;
+    refreshAlignPreview();
+  },
+  onAcceptBest: () => acceptSearchBest(),
+  onAngleDebugToggle: (open) => {
+    state.showAngleDebug = open;
+  },
+  getCandidateInfo: () => {
+    const candidate = state.alignCandidates[state.alignCandidateIndex];
+    if (!candidate) {
+      return null;
+    }
+    return {
+      index: state.alignCandidateIndex,
+      total: state.alignCandidates.length,
+      cellCount: candidate.cellCount,
+    };
+  },
+  onCandidateStep: (delta) => stepAlignCandidate(delta),
+  onConstraintsChange: (constraints) => {
+    history.record("Change align constraints", () => {
+      state.alignConstraints = constraints;
+    });
+    triggerAutoAlign();
+  },
+  onSpacingSearchChange: (spacingSearch) => {
+    cancelAlignment();
+    history.record("Change spacing search", () => {
+      setAlignCandidates([]);
+      state.spacingSearch = spacingSearch;
+    });
+    triggerAutoAlign();
+  },
+  onSnapSettingsChange: (settings) => {
+    state.snapSettings = settings;
+  },
+  onDrawToolChange: (tool) => {
+    resetDrawing();
+    state.drawTool = tool;
+  },
+  onShapeSettingsChange: (settings) => {
+    state.shapeSettings = settings;
+  },
+  onCellSizeChange: (spacingX, spacingY) => {
+    cancelAlignment();
+    history.record("Change cell size", () => {
+      setAlignCandidates([]);
+      state.grid.spacingX = spacingX;
+      state.grid.spacingY = spacingY;
+    });
+    markRasterDirty();
+    triggerAutoAlign();
+  },
+  onGridKindChange: (kind) => {
+    cancelAlignment();
+    history.record("Change grid kind", () => {
+      setAlignCandidates([]);
+      state.grid.kind = kind;
+    });
+    markRasterDirty();
+    triggerAutoAlign();
+  },
+  onComponentRuleChange: (rule) => {
+    cancelAlignment();
+    history.record("Change count rule", () => {
+      setAlignCandidates([]);
+      state.componentRule = rule;
+    });
+    markRasterDirty();
+    triggerAutoAlign();
+  },
+  onClearanceChange: (clearance) => {
+    cancelAlignment();
+    history.record("Change clearance", () => {
+      setAlignCandidates([]);
+      state.clearance = clearance;
+    });
+    markRasterDirty();
+    triggerAutoAlign();
+  },
+  onMinCoverageChange: (minCoverage) => {
+    cancelAlignment();
+    history.record("Change min coverage", () => {
+      setAlignCandidates([]);
+      state.minCoverage = minCoverage;
+    });
+    markRasterDirty();
+    triggerAutoAlign();
+  },
+});
+
+const landscapeChart = setupLandscapeChart({
+  onPick: (pick) => {
+    cancelAlignment();
+    history.record("Pick landscape pose", () => {
+      state.grid.angle = pick.angle;
+      state.grid.origin.x = pick.origin.x;
+      state.grid.origin.y = pick.origin.y;
+      state.grid.spacingX = pick.spacingX;
+      state.grid.spacingY = pick.spacingY;
+      // The picked pose replaces the candidates and seeds the next search.
+      setAlignCandidates([]);
+      alignHint = pick;
+    });
+    toolbarControls.setCellSize(pick.spacingX, pick.spacingY);
+    markRasterDirty();
+  },
+});
+
+const history = createEditHistory({
+  capture: captureHistorySnapshot,
+  restore: restoreHistorySnapshot,
+  onChange: () => toolbarControls.setHistoryState(history.undoLabel(), history.redoLabel()),
 });
 
 const updateCellCountLabel = toolbarControls.updateCellCount;
@@ -49,11 +186,24 @@ setupInteractions({
   markRasterDirty,
   cancelAlignment,
   triggerAutoAlign,
+  history,
 });
+setupHistoryShortcuts();
 
 toolbarControls.updateModeButtons();
 updateCellCountLabel(0);
 toolbarControls.setAutoAlignChecked(state.autoAlignEnabled);
+toolbarControls.setPreviewChecked(state.alignPreviewEnabled);
+toolbarControls.setConstraints(state.alignConstraints);
+toolbarControls.setSpacingSearch(state.spacingSearch);
+toolbarControls.setSnapSettings(state.snapSettings);
+toolbarControls.setDrawTool(state.drawTool);
+toolbarControls.setShapeSettings(state.shapeSettings);
+toolbarControls.setCellSize(state.grid.spacingX, state.grid.spacingY);
+toolbarControls.setGridKind(state.grid.kind);
+toolbarControls.setComponentRule(state.componentRule);
+toolbarControls.setClearance(state.clearance);
+toolbarControls.setMinCoverage(state.minCoverage);
 if (state.autoAlignEnabled && state.region) {
   triggerAutoAlign();
 }
@@ -64,72 +214,290 @@ function markRasterDirty() {
 
 function handleModeToggle(mode: PolygonBooleanMode) {
   const nextMode = state.polygonMode === mode ? null : mode;
-  state.drawingPolygon = [];
-  state.drawingCursorWorld = null;
-  state.interactionMode = "idle";
-  state.hoveredFirstVertex = false;
+  resetDrawing();
   state.polygonMode = nextMode;
+  if (nextMode) {
+    stopRegionEditing();
+  }
   toolbarControls.updateModeButtons();
 }
 
-function clearRegion() {
-  cancelAlignment();
-  state.autoAlignEnabled = false;
-  state.region = null;
+function handleEditToggle() {
+  const editing = !state.regionEditing;
+  stopRegionEditing();
+  if (editing) {
+    resetDrawing();
+    state.polygonMode = null;
+    state.regionEditing = true;
+  }
+  toolbarControls.updateModeButtons();
+}
+
+/** Drops any outline being drawn, whatever the tool. */
+function resetDrawing() {
   state.drawingPolygon = [];
   state.drawingCursorWorld = null;
+  state.drawingShape = null;
+  state.drawingLasso = [];
   state.interactionMode = "idle";
   state.hoveredFirstVertex = false;
+}
+
+function stopRegionEditing() {
+  state.regionEditing = false;
+  state.hoveredVertex = null;
+  state.hoveredEdge = null;
+  state.selectedVertex = null;
+}
+
+function clearRegion() {
+  cancelAlignment();
+  history.record("Clear polygons", () => {
+    state.autoAlignEnabled = false;
+    state.region = null;
+    setAlignCandidates([]);
+  });
+  resetDrawing();
   state.hoveredGizmo = null;
+  state.hoveredVertex = null;
+  state.hoveredEdge = null;
+  state.selectedVertex = null;
   markRasterDirty();
   toolbarControls.updateCellCount(0);
   toolbarControls.setAlignStats("");
+  showSearchStats(null);
   toolbarControls.setAutoAlignChecked(false);
 }
 
+function captureHistorySnapshot(): HistorySnapshot {
+  return {
+    region: state.region,
+    grid: { ...state.grid, origin: { ...state.grid.origin } },
+    alignCandidates: state.alignCandidates,
+    alignCandidateIndex: state.alignCandidateIndex,
+    autoAlignEnabled: state.autoAlignEnabled,
+    componentRule: state.componentRule,
+    clearance: state.clearance,
+    minCoverage: state.minCoverage,
+    alignConstraints: state.alignConstraints,
+    spacingSearch: state.spacingSearch,
+  };
+}
+
+/** Puts back an undone or redone state without starting a new search. */
+function restoreHistorySnapshot(snapshot: HistorySnapshot) {
+  cancelAlignment();
+  state.region = snapshot.region;
+  state.grid = { ...snapshot.grid, origin: { ...snapshot.grid.origin } };
+  state.alignCandidates = snapshot.alignCandidates;
+  state.alignCandidateIndex = snapshot.alignCandidateIndex;
+  state.autoAlignEnabled = snapshot.autoAlignEnabled;
+  state.componentRule = snapshot.componentRule;
+  state.clearance = snapshot.clearance;
+  state.minCoverage = snapshot.minCoverage;
+  state.alignConstraints = snapshot.alignConstraints;
+  state.spacingSearch = snapshot.spacingSearch;
+  // Vertex references may not survive the region changing back.
+  state.hoveredVertex = null;
+  state.hoveredEdge = null;
+  state.selectedVertex = null;
+  alignHint = state.alignCandidates[state.alignCandidateIndex] ?? null;
+  toolbarControls.setAutoAlignChecked(state.autoAlignEnabled);
+  toolbarControls.setCellSize(state.grid.spacingX, state.grid.spacingY);
+  toolbarControls.setGridKind(state.grid.kind);
+  toolbarControls.setComponentRule(state.componentRule);
+  toolbarControls.setClearance(state.clearance);
+  toolbarControls.setMinCoverage(state.minCoverage);
+  toolbarControls.setConstraints(state.alignConstraints);
+  toolbarControls.setSpacingSearch(state.spacingSearch);
+  toolbarControls.updateCandidateNav();
+  markRasterDirty();
+}
+
+function setupHistoryShortcuts() {
+  window.addEventListener("keydown", (event) => {
+    if (!(event.ctrlKey || event.metaKey) || event.altKey) {
+      return;
+    }
+    const target = event.target;
+    if (
+      target instanceof HTMLInputElement ||
+      target instanceof HTMLSelectElement ||
+      target instanceof HTMLTextAreaElement
+    ) {
+      return;
+    }
+    const key = event.key.toLowerCase();
+    if (key === "z" && !event.shiftKey) {
+      history.undo();
+    } else if ((key === "z" && event.shiftKey) || key === "y") {
+      history.redo();
+    } else {
+      return;
+    }
+    event.preventDefault();
+  });
+}
+
+function setAlignCandidates(candidates: GridAlignmentResult[]) {
+  state.alignCandidates = candidates;
+  state.alignCandidateIndex = 0;
+  alignHint = null;
+  if (candidates.length) {
+    applyAlignCandidate(0);
+  }
+  toolbarControls.updateCandidateNav();
+}
+
+function stepAlignCandidate(delta: number) {
+  const total = state.alignCandidates.length;
+  if (!total) {
+    return;
+  }
+  cancelAlignment();
+  history.record("Switch candidate", () => {
+    applyAlignCandidate((((state.alignCandidateIndex + delta) % total) + total) % total);
+  });
+  toolbarControls.updateCandidateNav();
+}
+
+function applyAlignCandidate(index: number) {
+  const candidate = state.alignCandidates[index];
+  if (!candidate) {
+    return;
+  }
+  state.alignCandidateIndex = index;
+  alignHint = candidate;
+  state.grid.origin.x = candidate.origin.x;
+  state.grid.origin.y = candidate.origin.y;
+  state.grid.angle = candidate.angle;
+  state.grid.spacingX = candidate.spacingX;
+  state.grid.spacingY = candidate.spacingY;
+  toolbarControls.setCellSize(candidate.spacingX, candidate.spacingY);
+  markRasterDirty();
+}
+
 function cancelAlignment() {
   if (!alignAbortController) {
     return;
   }
   alignAbortController.abort();
   alignAbortController = null;
+  clearSearchBest();
   toolbarControls.setAligning(false);
   toolbarControls.setAlignStats(lastAlignStatsText);
 }
 
+function showSearchBest(best: GridAlignmentResult) {
+  searchBest = best;
+  toolbarControls.setAcceptAvailable(true);
+  refreshAlignPreview();
+}
+
+function clearSearchBest() {
+  searchBest = null;
+  state.alignPreview = null;
+  toolbarControls.setAcceptAvailable(false);
+}
+
+/** Rasterizes the search leader at its own pose so it can be drawn over the current grid. */
+function refreshAlignPreview() {
+  if (!searchBest || !state.alignPreviewEnabled) {
+    state.alignPreview = null;
+    return;
+  }
+  const grid = {
+    ...state.grid,
+    origin: { ...searchBest.origin },
+    angle: searchBest.angle,
+    spacingX: searchBest.spacingX,
+    spacingY: searchBest.spacingY,
+  };
+  state.alignPreview = {
+    result: searchBest,
+    grid,
+    raster: rasterizeRegion(state.region, grid, currentRasterOptions()),
+  };
+}
+
+function acceptSearchBest() {
+  const best = searchBest;
+  if (!best) {
+    return;
+  }
+  lastAlignStatsText = "Stopped early";
+  cancelAlignment();
+  showSearchStats(null);
+  history.record("Accept best so far", () => setAlignCandidates([best]));
+}
+
 function autoAlignGrid() {
   if (!state.region) {
     return;
   }
   cancelAlignment();
+  const searchOptions: GridAlignmentSearchOptions = {
+    constraints: state.alignConstraints,
+    spacingSearch: state.spacingSearch,
+    componentRule: state.componentRule,
+    clearance: state.clearance,
+    minCoverage: state.minCoverage,
+    verifyExact: true,
+  };
+  const region = state.region;
+  const cacheKey = alignmentCacheKey(region, state.grid, searchOptions);
+  const cached = alignmentCache.get(cacheKey, region);
+  if (cached) {
+    lastAlignStatsText = "Restored earlier alignment";
+    toolbarControls.setAlignStats(lastAlignStatsText);
+    showSearchStats(cached.stats);
+    history.record("Auto align", () => setAlignCandidates(cached.candidates));
+    return;
+  }
   const controller = new AbortController();
   alignAbortController = controller;
   toolbarControls.setAligning(true);
   toolbarControls.setAlignStats("Aligning…");
-  findBestGridAlignmentAsync(state.region, state.grid, {
+  findBestGridAlignmentInWorker(region, state.grid, {
+    ...searchOptions,
+    warmStart: alignHint,
     signal: controller.signal,
+    onProgress: (progress) => {
+      if (!controller.signal.aborted) {
+        toolbarControls.setAlignProgress(progress);
+      }
+    },
+    onBestSoFar: (best) => {
+      if (!controller.signal.aborted) {
+        showSearchBest(best);
+      }
+    },
   })
-    .then((best) => {
+    .then((outcome) => {
       if (controller.signal.aborted) {
         return;
       }
       alignAbortController = null;
+      clearSearchBest();
       toolbarControls.setAligning(false);
-      lastAlignStatsText = "";
+      lastAlignStatsText = describeOutcome(outcome);
       toolbarControls.setAlignStats(lastAlignStatsText);
-      if (!best) {
+      showSearchStats(outcome?.stats ?? null);
+      if (!outcome) {
         return;
       }
-      state.grid.origin.x = best.origin.x;
-      state.grid.origin.y = best.origin.y;
-      state.grid.angle = best.angle;
-      markRasterDirty();
+      // A kept warm start only searched near the previous pose, so it is not the full result.
+      if (outcome.stats.warmStart !== "kept") {
+        alignmentCache.set(cacheKey, region, outcome);
+      }
+      history.record("Auto align", () => setAlignCandidates(outcome.candidates));
     })
     .catch((error) => {
       if (controller.signal.aborted) {
         return;
       }
       alignAbortController = null;
+      clearSearchBest();
       toolbarControls.setAligning(false);
       toolbarControls.setAlignStats(lastAlignStatsText);
       // eslint-disable-next-line no-console
@@ -137,6 +505,37 @@ function autoAlignGrid() {
     });
 }
 
+/** Fills the timing and candidate angle panels; null clears them. */
+function showSearchStats(stats: GridAlignmentStats | null) {
+  state.angleReports = stats?.angles ?? [];
+  toolbarControls.setAlignBreakdown(stats);
+  toolbarControls.setAngleReports(stats?.angles ?? null);
+  landscapeChart.setStats(stats);
+}
+
+/**
+ * Search duration, plus any raster misclassifications found by the exact check and any cells it
+ * could not check.
+ */
+function describeOutcome(outcome: GridAlignmentOutcome | null): string {
+  if (!outcome) {
+    return "";
+  }
+  const summary = `Aligned in ${(outcome.stats.durationMs / 1000).toFixed(1)} s`;
+  const verification = outcome.candidates[0]?.verification;
+  const disagreements = verification?.disagreements ?? [];
+  const unverifiable = verification?.unverifiableCells ?? 0;
+  const notes: string[] = [];
+  if (disagreements.length) {
+    const noun = disagreements.length === 1 ? "cell differs" : "cells differ";
+    notes.push(`${disagreements.length} ${noun} from raster`);
+  }
+  if (unverifiable) {
+    notes.push(`${unverifiable} unverifiable`);
+  }
+  return notes.length ? `${summary} · exact check: ${notes.join(", ")}` : summary;
+}
+
 function triggerAutoAlign() {
   if (!state.autoAlignEnabled) {
     return;
@@ -144,9 +543,17 @@ function triggerAutoAlign() {
   autoAlignGrid();
 }
 
+function currentRasterOptions(): RasterOptions {
+  return {
+    componentRule: state.componentRule,
+    clearance: state.clearance,
+    minCoverage: state.minCoverage,
+  };
+}
+
 function update() {
   if (rasterDirty) {
-    state.raster = rasterizeRegion(state.region, state.grid);
+    state.raster = rasterizeRegion(state.region, state.grid, currentRasterOptions());
     updateCellCountLabel(state.raster?.gridCellCount ?? 0);
     rasterDirty = false;
   }
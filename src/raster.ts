@@ -1,4 +1,7 @@
+import { DEFAULT_COMPONENT_RULE } from "./state";
 import type {
+  ComponentRule,
+  GridKind,
   GridSampleBounds,
   GridState,
   MultiPolygon,
@@ -7,21 +10,69 @@ import type {
   Vec2,
 } from "./state";
 import type { RasterTimings } from "./gridAlignment";
+import { fillMaskWithScanline } from "./scanline";
+import { squaredDistanceToZeros } from "./distanceField";
+import { EMPTY_CELL_SET, createCellSet } from "./cellSet";
+import {
+  hexHalfWidthAt,
+  isHexKind,
+  latticeCellCenter,
+  latticeCellHalfExtents,
+  latticeNeighbors,
+  latticePitch,
+  latticeStagger,
+} from "./lattice";
 
 const RASTER_MARGIN_CELLS = 2;
 export const RASTER_RESOLUTION = 8;
+const COVERAGE_EPSILON = 1e-9;
+const ANCHOR_EPSILON = 1e-6;
+
+/** Results of precomputeCellAcceptance, indexed by anchor pixel. */
+const cellAcceptanceMaps = new WeakMap<RasterResult, Uint8Array>();
+
+/**
+ * "scanline" is the exact, DOM-free fill used everywhere by default. "canvas" keeps the previous
+ * anti-aliased canvas fill around for comparison; it needs a document or OffscreenCanvas.
+ */
+export type RasterBackend = "scanline" | "canvas";
+
+export interface RasterOptions {
+  timings?: RasterTimings;
+  backend?: RasterBackend;
+  /**
+   * Raster cell size along each grid axis, in grid units. Defaults to the lattice pitch divided by
+   * RASTER_RESOLUTION per axis; a finer size lets one raster serve several spacings through
+   * viewRasterAtSpacing.
+   */
+  cellSize?: Vec2;
+  /** How covered cells are grouped and counted. Defaults to the largest edge-connected area. */
+  componentRule?: ComponentRule;
+  /** Minimum gap, in world units, kept between accepted cells and the region boundary. */
+  clearance?: number;
+  /** Fraction of a cell's raster pixels that must be covered for it to count. Defaults to 1. */
+  minCoverage?: number;
+  /**
+   * Build only the mask, leaving the component fields empty as viewRasterAtSpacing does. For
+   * rasters that are only queried per offset.
+   */
+  maskOnly?: boolean;
+}
 
 export function rasterizeRegion(
   region: MultiPolygon | null,
   grid: GridState,
-  timings?: RasterTimings,
+  options: RasterOptions = {},
 ): RasterResult | null {
   if (!region) {
     return null;
   }
+  const { timings, backend = "scanline", clearance = 0 } = options;
 
   const t0 = performance.now();
-  const cellSize = grid.spacing / RASTER_RESOLUTION;
+  const pitch = latticePitch(grid.kind, grid.spacingX, grid.spacingY);
+  const cellSizeX = options.cellSize?.x ?? pitch.x / RASTER_RESOLUTION;
+  const cellSizeY = options.cellSize?.y ?? pitch.y / RASTER_RESOLUTION;
   const regionGrid = transformRegionToGrid(region, grid);
   const bounds = computeGridBoundsGrid(regionGrid);
   if (!bounds) {
@@ -29,16 +80,17 @@ export function rasterizeRegion(
   }
   const tBounds = performance.now();
 
-  const minMarginCells = Math.ceil((grid.spacing / 2) / cellSize) + 2;
-  const marginCells = Math.max(RASTER_MARGIN_CELLS, minMarginCells);
+  const halfCell = latticeCellHalfExtents(grid.kind, grid.spacingX, grid.spacingY);
+  const marginCellsX = Math.max(RASTER_MARGIN_CELLS, Math.ceil(halfCell.x / cellSizeX) + 2);
+  const marginCellsY = Math.max(RASTER_MARGIN_CELLS, Math.ceil(halfCell.y / cellSizeY) + 2);
 
-  const minX = Math.floor(bounds.minX / cellSize) * cellSize - cellSize * marginCells;
-  const minY = Math.floor(bounds.minY / cellSize) * cellSize - cellSize * marginCells;
-  const maxX = Math.ceil(bounds.maxX / cellSize) * cellSize + cellSize * marginCells;
-  const maxY = Math.ceil(bounds.maxY / cellSize) * cellSize + cellSize * marginCells;
+  const minX = Math.floor(bounds.minX / cellSizeX) * cellSizeX - cellSizeX * marginCellsX;
+  const minY = Math.floor(bounds.minY / cellSizeY) * cellSizeY - cellSizeY * marginCellsY;
+  const maxX = Math.ceil(bounds.maxX / cellSizeX) * cellSizeX + cellSizeX * marginCellsX;
+  const maxY = Math.ceil(bounds.maxY / cellSizeY) * cellSizeY + cellSizeY * marginCellsY;
 
-  const width = Math.max(1, Math.ceil((maxX - minX) / cellSize));
-  const height = Math.max(1, Math.ceil((maxY - minY) / cellSize));
+  const width = Math.max(1, Math.ceil((maxX - minX) / cellSizeX));
+  const height = Math.max(1, Math.ceil((maxY - minY) / cellSizeY));
 
   const originGrid = { x: minX, y: minY };
   const data = new Uint8Array(width * height);
@@ -49,31 +101,59 @@ export function rasterizeRegion(
     width,
     height,
     prefixSum,
-    cellSize,
+    cellSizeX,
+    cellSizeY,
     originGrid,
   };
 
   const tFillStart = performance.now();
-  fillMaskWithCanvas(mask, regionGrid);
+  if (backend === "canvas") {
+    fillMaskWithCanvas(mask, regionGrid);
+  } else {
+    fillMaskWithScanline(mask, regionGrid);
+  }
+  if (clearance > 0) {
+    erodeMaskByClearance(mask, clearance);
+  }
   const tFill = performance.now();
 
   buildPrefixSum(mask);
   const tPrefix = performance.now();
 
-  const gridSampleBounds = computeGridSampleBounds(mask, grid.spacing);
+  const gridSampleBounds = computeGridSampleBounds(mask, grid.kind, grid.spacingX, grid.spacingY);
 
   const rasterResult: RasterResult = {
     mask,
-    gridSpacing: grid.spacing,
+    gridKind: grid.kind,
+    gridSpacingX: grid.spacingX,
+    gridSpacingY: grid.spacingY,
     gridSampleBounds,
+    componentRule: options.componentRule ?? DEFAULT_COMPONENT_RULE,
+    minCoverage: options.minCoverage ?? 1,
     gridCellCount: 0,
-    insideCells: new Set(),
+    insideCells: EMPTY_CELL_SET,
+    cellCoverage: new Float32Array(0),
   };
 
-  const { insideCells, count } = computeLargestComponent(rasterResult);
-  const tComponent = performance.now();
-  rasterResult.gridCellCount = count;
-  rasterResult.insideCells = insideCells;
+  let tComponent = tPrefix;
+  if (!options.maskOnly) {
+    const { count, cells } = walkComponentsWithOffset(rasterResult, { x: 0, y: 0 }, true);
+    tComponent = performance.now();
+    rasterResult.gridCellCount = count;
+    const insideCells = createCellSet(cells);
+    const cellBounds = insideCells.bounds;
+    const cellCoverage = new Float32Array(
+      cellBounds
+        ? (cellBounds.maxX - cellBounds.minX + 1) * (cellBounds.maxY - cellBounds.minY + 1)
+        : 0,
+    );
+    insideCells.forEach((ix, iy) => {
+      const center = latticeCellCenter(grid.kind, pitch, ix, iy);
+      cellCoverage[insideCells.indexOf(ix, iy)] = measureCellCoverage(rasterResult, center);
+    });
+    rasterResult.insideCells = insideCells;
+    rasterResult.cellCoverage = cellCoverage;
+  }
 
   if (timings) {
     timings.boundsMs += tBounds - t0;
@@ -84,228 +164,459 @@ export function rasterizeRegion(
   return rasterResult;
 }
 
+/**
+ * Reinterprets a raster for a different grid spacing. Only the per-offset queries
+ * (countCellsWithOffset and friends) are meaningful on the view: the component fields are left
+ * empty. The raster must have been built with enough margin for the spacing.
+ */
+export function viewRasterAtSpacing(
+  raster: RasterResult,
+  spacingX: number,
+  spacingY: number,
+): RasterResult {
+  if (spacingX === raster.gridSpacingX && spacingY === raster.gridSpacingY) {
+    return raster;
+  }
+  return {
+    mask: raster.mask,
+    gridKind: raster.gridKind,
+    gridSpacingX: spacingX,
+    gridSpacingY: spacingY,
+    gridSampleBounds: computeGridSampleBounds(raster.mask, raster.gridKind, spacingX, spacingY),
+    componentRule: raster.componentRule,
+    minCoverage: raster.minCoverage,
+    gridCellCount: 0,
+    insideCells: EMPTY_CELL_SET,
+    cellCoverage: new Float32Array(0),
+  };
+}
+
 export function sampleRasterAtGridPoint(raster: RasterResult, gridPoint: Vec2): number {
   return erodeGridCell(raster, gridPoint) ? 1 : 0;
 }
 
-export function countLargestComponentWithOffset(raster: RasterResult, offsetGrid: Vec2): number {
+/** Fraction of the cell's raster pixels that are covered; 0 when the cell leaves the mask. */
+export function measureCellCoverage(raster: RasterResult, gridPoint: Vec2): number {
+  if (isHexKind(raster.gridKind)) {
+    return measureHexCellCoverage(raster, gridPoint);
+  }
+  const { mask, gridSpacingX, gridSpacingY } = raster;
+  const halfWidth = gridSpacingX / 2;
+  const halfHeight = gridSpacingY / 2;
+
+  const minGX = gridPoint.x - halfWidth;
+  const maxGX = gridPoint.x + halfWidth;
+  const minGY = gridPoint.y - halfHeight;
+  const maxGY = gridPoint.y + halfHeight;
+
+  const eps = 1e-7;
+  const startX = Math.floor(((minGX - mask.originGrid.x) / mask.cellSizeX) + eps);
+  const endX = Math.ceil(((maxGX - mask.originGrid.x) / mask.cellSizeX) - eps) - 1;
+  const startY = Math.floor(((minGY - mask.originGrid.y) / mask.cellSizeY) + eps);
+  const endY = Math.ceil(((maxGY - mask.originGrid.y) / mask.cellSizeY) - eps) - 1;
+
+  if (startX < 0 || startY < 0 || endX >= mask.width || endY >= mask.height) {
+    return 0;
+  }
+  if (endX < startX || endY < startY) {
+    return 0;
+  }
+
+  const ps = mask.prefixSum;
+  const stride = mask.width + 1;
+  const x0 = startX;
+  const x1 = endX + 1;
+  const y0 = startY;
+  const y1 = endY + 1;
+  const area =
+    ps[y1 * stride + x1] - ps[y0 * stride + x1] - ps[y1 * stride + x0] + ps[y0 * stride + x0];
+  const expectedArea = (endX - startX + 1) * (endY - startY + 1);
+  return area / expectedArea;
+}
+
+/** Number of cells the raster's component rule counts with the grid shifted by offsetGrid. */
+export function countCellsWithOffset(raster: RasterResult, offsetGrid: Vec2): number {
+  return walkComponentsWithOffset(raster, offsetGrid, false).count;
+}
+
+/**
+ * Same search as countCellsWithOffset, but also returns the grid indices of the counted cells (for
+ * "largest", ties keep the first component found in row order).
+ */
+export function findCellsWithOffset(
+  raster: RasterResult,
+  offsetGrid: Vec2,
+): { count: number; cells: Vec2[] } {
+  return walkComponentsWithOffset(raster, offsetGrid, true);
+}
+
+/**
+ * Scratch buffers shared by every component walk. They grow on demand and are never shrunk, so a
+ * sweep over many offsets and angles allocates nothing per query.
+ */
+const walkBuffers = {
+  accepted: new Uint8Array(0),
+  queue: new Int32Array(0),
+  best: new Int32Array(0),
+  kept: new Int32Array(0),
+};
+
+const neighborStepCache = new Map<string, Int32Array[]>();
+
+function ensureWalkBuffers(size: number) {
+  if (walkBuffers.accepted.length >= size) {
+    return;
+  }
+  const capacity = Math.max(size, walkBuffers.accepted.length * 2);
+  walkBuffers.accepted = new Uint8Array(capacity);
+  walkBuffers.queue = new Int32Array(capacity);
+  walkBuffers.best = new Int32Array(capacity);
+  walkBuffers.kept = new Int32Array(capacity);
+}
+
+/**
+ * Flood-fills the accepted cells over flat sample-grid indices. The BFS queue doubles as the
+ * component's cell list, since every cell is enqueued exactly once.
+ */
+function walkComponentsWithOffset(
+  raster: RasterResult,
+  offsetGrid: Vec2,
+  collectCells: boolean,
+): { count: number; cells: Vec2[] } {
+  const { gridKind, componentRule } = raster;
   const gridSampleBounds = computeGridSampleBoundsWithOffset(
     raster.mask,
-    raster.gridSpacing,
+    gridKind,
+    raster.gridSpacingX,
+    raster.gridSpacingY,
     offsetGrid,
   );
   const width = gridSampleBounds.maxX - gridSampleBounds.minX + 1;
   const height = gridSampleBounds.maxY - gridSampleBounds.minY + 1;
-  const visited = new Uint8Array(width * height);
+  const size = width * height;
+  ensureWalkBuffers(size);
+  const { accepted, queue, best, kept } = walkBuffers;
+  markAcceptedCells(raster, gridSampleBounds, offsetGrid, accepted);
+  const neighborSteps = buildNeighborSteps(gridKind, componentRule);
+  const parityX = gridSampleBounds.minX & 1;
+  const parityY = gridSampleBounds.minY & 1;
   let bestCount = 0;
+  let keptCount = 0;
+  const minSize =
+    componentRule.aggregation === "minSize" ? Math.max(1, componentRule.minComponentSize) : 1;
 
-  const directions = [
-    { x: 1, y: 0 },
-    { x: -1, y: 0 },
-    { x: 0, y: 1 },
-    { x: 0, y: -1 },
-  ];
-
-  const idx = (gx: number, gy: number) => (gy - gridSampleBounds.minY) * width + (gx - gridSampleBounds.minX);
-  const spacing = raster.gridSpacing;
-
-  for (let gy = gridSampleBounds.minY; gy <= gridSampleBounds.maxY; gy += 1) {
-    for (let gx = gridSampleBounds.minX; gx <= gridSampleBounds.maxX; gx += 1) {
-      const vIndex = idx(gx, gy);
-      if (visited[vIndex]) {
-        continue;
-      }
-      const gridCenter: Vec2 = {
-        x: gx * spacing + offsetGrid.x,
-        y: gy * spacing + offsetGrid.y,
-      };
-      if (!erodeGridCell(raster, gridCenter)) {
-        visited[vIndex] = 1;
-        continue;
+  for (let start = 0; start < size; start += 1) {
+    if (!accepted[start]) {
+      continue;
+    }
+    // Accepted cells are cleared as they are enqueued, which also marks them visited.
+    accepted[start] = 0;
+    queue[0] = start;
+    let head = 0;
+    let tail = 1;
+    while (head < tail) {
+      const index = queue[head];
+      head += 1;
+      const lx = index % width;
+      const ly = (index - lx) / width;
+      const steps = neighborSteps[(((lx + parityX) & 1) << 1) | ((ly + parityY) & 1)];
+      for (let s = 0; s < steps.length; s += 2) {
+        const nx = lx + steps[s];
+        const ny = ly + steps[s + 1];
+        if (nx < 0 || nx >= width || ny < 0 || ny >= height) {
+          continue;
+        }
+        const nIndex = ny * width + nx;
+        if (accepted[nIndex]) {
+          accepted[nIndex] = 0;
+          queue[tail] = nIndex;
+          tail += 1;
+        }
       }
+    }
 
-      const queue: Vec2[] = [{ x: gx, y: gy }];
-      let componentSize = 0;
-      visited[vIndex] = 1;
-
-      while (queue.length > 0) {
-        const cell = queue.shift()!;
-        componentSize += 1;
-        for (const dir of directions) {
-          const nx = cell.x + dir.x;
-          const ny = cell.y + dir.y;
-          if (nx < gridSampleBounds.minX || nx > gridSampleBounds.maxX) {
-            continue;
-          }
-          if (ny < gridSampleBounds.minY || ny > gridSampleBounds.maxY) {
-            continue;
-          }
-          const nIndex = idx(nx, ny);
-          if (visited[nIndex]) {
-            continue;
-          }
-          const neighborCenter: Vec2 = {
-            x: nx * spacing + offsetGrid.x,
-            y: ny * spacing + offsetGrid.y,
-          };
-          if (!erodeGridCell(raster, neighborCenter)) {
-            visited[nIndex] = 1;
-            continue;
-          }
-          visited[nIndex] = 1;
-          queue.push({ x: nx, y: ny });
-        }
+    if (tail > bestCount) {
+      bestCount = tail;
+      if (collectCells) {
+        best.set(queue.subarray(0, tail));
+      }
+    }
+    if (tail >= minSize) {
+      if (collectCells) {
+        kept.set(queue.subarray(0, tail), keptCount);
       }
+      keptCount += tail;
+    }
+  }
+
+  const toCells = (indices: Int32Array, count: number): Vec2[] => {
+    const cells: Vec2[] = new Array(count);
+    for (let i = 0; i < count; i += 1) {
+      const lx = indices[i] % width;
+      cells[i] = {
+        x: gridSampleBounds.minX + lx,
+        y: gridSampleBounds.minY + (indices[i] - lx) / width,
+      };
+    }
+    return cells;
+  };
+  if (componentRule.aggregation === "largest") {
+    return { count: bestCount, cells: collectCells ? toCells(best, bestCount) : [] };
+  }
+  return { count: keptCount, cells: collectCells ? toCells(kept, keptCount) : [] };
+}
+
+/**
+ * Neighbour offsets as flat (dx, dy) pairs for each cell parity, indexed by
+ * (gx & 1) * 2 + (gy & 1). Hex neighbours depend on whether the row or column is staggered.
+ */
+function buildNeighborSteps(kind: GridKind, componentRule: ComponentRule): Int32Array[] {
+  const key = `${kind}:${componentRule.connectivity}`;
+  const cached = neighborStepCache.get(key);
+  if (cached) {
+    return cached;
+  }
+  const steps: Int32Array[] = [];
+  for (let px = 0; px <= 1; px += 1) {
+    for (let py = 0; py <= 1; py += 1) {
+      const neighbors = latticeNeighbors(kind, px, py, componentRule.connectivity);
+      steps.push(Int32Array.from(neighbors.flatMap((n) => [n.x - px, n.y - py])));
+    }
+  }
+  neighborStepCache.set(key, steps);
+  return steps;
+}
 
-      if (componentSize > bestCount) {
-        bestCount = componentSize;
+/** Fills accepted[0, width × height) with 1 for every sample-grid cell that passes erosion. */
+function markAcceptedCells(
+  raster: RasterResult,
+  bounds: GridSampleBounds,
+  offsetGrid: Vec2,
+  accepted: Uint8Array,
+) {
+  const { mask, gridKind } = raster;
+  const pitch = latticePitch(gridKind, raster.gridSpacingX, raster.gridSpacingY);
+  const stagger = latticeStagger(gridKind);
+  const acceptance = cellAcceptanceMaps.get(raster);
+  let index = 0;
+  for (let gy = bounds.minY; gy <= bounds.maxY; gy += 1) {
+    for (let gx = bounds.minX; gx <= bounds.maxX; gx += 1) {
+      const x = (gx + (gy & 1) * stagger.x) * pitch.x + offsetGrid.x;
+      const y = (gy + (gx & 1) * stagger.y) * pitch.y + offsetGrid.y;
+      let inside: boolean;
+      const u = (x - mask.originGrid.x) / mask.cellSizeX;
+      const v = (y - mask.originGrid.y) / mask.cellSizeY;
+      const anchorX = Math.round(u);
+      const anchorY = Math.round(v);
+      if (
+        acceptance &&
+        Math.abs(u - anchorX) < ANCHOR_EPSILON &&
+        Math.abs(v - anchorY) < ANCHOR_EPSILON
+      ) {
+        inside =
+          anchorX >= 0 &&
+          anchorX < mask.width &&
+          anchorY >= 0 &&
+          anchorY < mask.height &&
+          acceptance[anchorY * mask.width + anchorX] === 1;
+      } else {
+        inside = erodeGridCell(raster, { x, y });
       }
+      accepted[index] = inside ? 1 : 0;
+      index += 1;
+    }
+  }
+}
+
+/**
+ * Runs the erosion test once for every cell centered on a raster pixel corner, in a single pass
+ * over the prefix sum, and caches the result on the raster. Queries whose cell centers all land on
+ * pixel corners (offsets that are multiples of the raster cell size, as in the coarse sweep) then
+ * read the cached answer instead of repeating the test per offset. Only worth it when many such
+ * offsets will be queried.
+ */
+export function precomputeCellAcceptance(raster: RasterResult): void {
+  if (cellAcceptanceMaps.has(raster)) {
+    return;
+  }
+  const { mask } = raster;
+  const { width, height, prefixSum: ps } = mask;
+  const acceptance = new Uint8Array(width * height);
+  cellAcceptanceMaps.set(raster, acceptance);
+
+  // The cell footprint relative to its anchor pixel, with equal rows merged into rectangles of
+  // (startX, endX, startY, endY), inclusive.
+  const rects: number[] = [];
+  let total = 0;
+  for (const { row, startX, endX } of cellPixelRows(raster, mask.originGrid)) {
+    if (endX < startX) {
+      continue;
+    }
+    total += endX - startX + 1;
+    const last = rects.length - 4;
+    const extendsLast =
+      last >= 0 &&
+      rects[last] === startX &&
+      rects[last + 1] === endX &&
+      rects[last + 3] === row - 1;
+    if (extendsLast) {
+      rects[last + 3] = row;
+    } else {
+      rects.push(startX, endX, row, row);
     }
   }
+  if (!total) {
+    return;
+  }
+  let minDx = Infinity;
+  let maxDx = -Infinity;
+  let minDy = Infinity;
+  let maxDy = -Infinity;
+  for (let r = 0; r < rects.length; r += 4) {
+    minDx = Math.min(minDx, rects[r]);
+    maxDx = Math.max(maxDx, rects[r + 1]);
+    minDy = Math.min(minDy, rects[r + 2]);
+    maxDy = Math.max(maxDy, rects[r + 3]);
+  }
 
-  return bestCount;
+  const needed = (raster.minCoverage - COVERAGE_EPSILON) * total;
+  const stride = width + 1;
+  for (let v = Math.max(0, -minDy); v < height - Math.max(0, maxDy); v += 1) {
+    for (let u = Math.max(0, -minDx); u < width - Math.max(0, maxDx); u += 1) {
+      let covered = 0;
+      for (let r = 0; r < rects.length; r += 4) {
+        const x0 = u + rects[r];
+        const x1 = u + rects[r + 1] + 1;
+        const y0 = (v + rects[r + 2]) * stride;
+        const y1 = (v + rects[r + 3] + 1) * stride;
+        covered += ps[y1 + x1] - ps[y0 + x1] - ps[y1 + x0] + ps[y0 + x0];
+      }
+      acceptance[v * width + u] = covered >= needed ? 1 : 0;
+    }
+  }
 }
 
-function computeGridSampleBounds(mask: RasterMask, spacing: number): GridSampleBounds {
-  const minX = mask.originGrid.x;
-  const minY = mask.originGrid.y;
-  const maxX = mask.originGrid.x + mask.width * mask.cellSize;
-  const maxY = mask.originGrid.y + mask.height * mask.cellSize;
-  return {
-    minX: Math.floor(minX / spacing),
-    maxX: Math.ceil(maxX / spacing),
-    minY: Math.floor(minY / spacing),
-    maxY: Math.ceil(maxY / spacing),
-  };
+function computeGridSampleBounds(
+  mask: RasterMask,
+  kind: GridKind,
+  spacingX: number,
+  spacingY: number,
+): GridSampleBounds {
+  return computeGridSampleBoundsWithOffset(mask, kind, spacingX, spacingY, { x: 0, y: 0 });
 }
 
+/** Index ranges whose cells can touch the mask. Hex grids get one extra index for the stagger. */
 function computeGridSampleBoundsWithOffset(
   mask: RasterMask,
-  spacing: number,
+  kind: GridKind,
+  spacingX: number,
+  spacingY: number,
   offset: Vec2,
 ): GridSampleBounds {
+  const pitch = latticePitch(kind, spacingX, spacingY);
+  const pad = isHexKind(kind) ? 1 : 0;
   const minX = mask.originGrid.x - offset.x;
   const minY = mask.originGrid.y - offset.y;
-  const maxX = mask.originGrid.x + mask.width * mask.cellSize - offset.x;
-  const maxY = mask.originGrid.y + mask.height * mask.cellSize - offset.y;
+  const maxX = mask.originGrid.x + mask.width * mask.cellSizeX - offset.x;
+  const maxY = mask.originGrid.y + mask.height * mask.cellSizeY - offset.y;
   return {
-    minX: Math.floor(minX / spacing),
-    maxX: Math.ceil(maxX / spacing),
-    minY: Math.floor(minY / spacing),
-    maxY: Math.ceil(maxY / spacing),
+    minX: Math.floor(minX / pitch.x) - pad,
+    maxX: Math.ceil(maxX / pitch.x) + pad,
+    minY: Math.floor(minY / pitch.y) - pad,
+    maxY: Math.ceil(maxY / pitch.y) + pad,
   };
 }
 
-function computeLargestComponent(
-  raster: RasterResult,
-): { insideCells: Set<string>; count: number } {
-  const { gridSampleBounds } = raster;
-  const width = gridSampleBounds.maxX - gridSampleBounds.minX + 1;
-  const height = gridSampleBounds.maxY - gridSampleBounds.minY + 1;
-  const visited = new Uint8Array(width * height);
-  let bestCount = 0;
-  let bestComponent: Set<string> = new Set();
-
-  const directions = [
-    { x: 1, y: 0 },
-    { x: -1, y: 0 },
-    { x: 0, y: 1 },
-    { x: 0, y: -1 },
-  ];
-
-  const encode = (gx: number, gy: number) => `${gx},${gy}`;
-  const idx = (gx: number, gy: number) => (gy - gridSampleBounds.minY) * width + (gx - gridSampleBounds.minX);
-
-  for (let gy = gridSampleBounds.minY; gy <= gridSampleBounds.maxY; gy += 1) {
-    for (let gx = gridSampleBounds.minX; gx <= gridSampleBounds.maxX; gx += 1) {
-      const vIndex = idx(gx, gy);
-      if (visited[vIndex]) {
-        continue;
-      }
-      const gridCenter: Vec2 = { x: gx * raster.gridSpacing, y: gy * raster.gridSpacing };
-      if (!sampleRasterAtGridPoint(raster, gridCenter)) {
-        visited[vIndex] = 1;
-        continue;
-      }
-
-      const queue: Vec2[] = [{ x: gx, y: gy }];
-      const component = new Set<string>();
-      visited[vIndex] = 1;
-      component.add(encode(gx, gy));
-
-      while (queue.length > 0) {
-        const cell = queue.shift()!;
-        for (const dir of directions) {
-          const nx = cell.x + dir.x;
-          const ny = cell.y + dir.y;
-          if (nx < gridSampleBounds.minX || nx > gridSampleBounds.maxX) {
-            continue;
-          }
-          if (ny < gridSampleBounds.minY || ny > gridSampleBounds.maxY) {
-            continue;
-          }
-          const nIndex = idx(nx, ny);
-          if (visited[nIndex]) {
-            continue;
-          }
-          const neighborCenter: Vec2 = { x: nx * raster.gridSpacing, y: ny * raster.gridSpacing };
-          if (!sampleRasterAtGridPoint(raster, neighborCenter)) {
-            visited[nIndex] = 1;
-            continue;
-          }
-          visited[nIndex] = 1;
-          component.add(encode(nx, ny));
-          queue.push({ x: nx, y: ny });
-        }
-      }
+/**
+ * Checks whether a grid cell centered at gridPoint is covered well enough by the rasterized region:
+ * at least raster.minCoverage of the raster cells under it must be inside. With the default of 1
+ * this is the erosion stage described in the spec.
+ */
+function erodeGridCell(raster: RasterResult, gridPoint: Vec2): boolean {
+  return measureCellCoverage(raster, gridPoint) >= raster.minCoverage - COVERAGE_EPSILON;
+}
 
-      if (component.size > bestCount) {
-        bestCount = component.size;
-        bestComponent = component;
-      }
+/** Hex counterpart of measureCellCoverage, summed over the raster rows the hexagon overlaps. */
+function measureHexCellCoverage(raster: RasterResult, gridPoint: Vec2): number {
+  const { mask } = raster;
+  const count = fillCellPixelRows(raster, gridPoint);
+  const spans = rowSpanBuffer.spans;
+  const ps = mask.prefixSum;
+  const stride = mask.width + 1;
+  let covered = 0;
+  let total = 0;
+  for (let i = 0; i < count * 3; i += 3) {
+    const row = spans[i];
+    const startX = spans[i + 1];
+    const endX = spans[i + 2];
+    if (row < 0 || row >= mask.height || startX < 0 || endX >= mask.width) {
+      return 0;
+    }
+    if (endX < startX) {
+      continue;
     }
+    const x0 = startX;
+    const x1 = endX + 1;
+    const below = row * stride;
+    const above = below + stride;
+    covered += ps[above + x1] - ps[below + x1] - ps[above + x0] + ps[below + x0];
+    total += endX - startX + 1;
   }
-
-  return { insideCells: bestComponent, count: bestCount };
+  return total > 0 ? covered / total : 0;
 }
 
 /**
- * Checks whether a grid cell centered at gridPoint is completely covered by the rasterized region by
- * testing every raster cell inside the square whose edge length matches the grid spacing. This acts
- * as the erosion stage described in the spec.
+ * Raster rows overlapped by the open interior of the cell centered at gridPoint, each with the
+ * inclusive column span it overlaps. Spans are not clamped to the mask.
  */
-function erodeGridCell(raster: RasterResult, gridPoint: Vec2): boolean {
-  const { mask, gridSpacing } = raster;
-  const halfEdge = gridSpacing / 2;
+export function cellPixelRows(
+  raster: RasterResult,
+  gridPoint: Vec2,
+): { row: number; startX: number; endX: number }[] {
+  const count = fillCellPixelRows(raster, gridPoint);
+  const spans = rowSpanBuffer.spans;
+  const rows: { row: number; startX: number; endX: number }[] = [];
+  for (let i = 0; i < count * 3; i += 3) {
+    rows.push({ row: spans[i], startX: spans[i + 1], endX: spans[i + 2] });
+  }
+  return rows;
+}
 
-  const minGX = gridPoint.x - halfEdge;
-  const maxGX = gridPoint.x + halfEdge;
-  const minGY = gridPoint.y - halfEdge;
-  const maxGY = gridPoint.y + halfEdge;
+/** Shared output of fillCellPixelRows, grown on demand. */
+const rowSpanBuffer = { spans: new Int32Array(96) };
 
+/**
+ * Allocation-free form of cellPixelRows for the hot erosion path: writes (row, startX, endX)
+ * triples into rowSpanBuffer.spans and returns the number of rows.
+ */
+function fillCellPixelRows(raster: RasterResult, gridPoint: Vec2): number {
+  const { mask, gridKind, gridSpacingX, gridSpacingY } = raster;
+  const half = latticeCellHalfExtents(gridKind, gridSpacingX, gridSpacingY);
   const eps = 1e-7;
-  const startX = Math.floor(((minGX - mask.originGrid.x) / mask.cellSize) + eps);
-  const endX = Math.ceil(((maxGX - mask.originGrid.x) / mask.cellSize) - eps) - 1;
-  const startY = Math.floor(((minGY - mask.originGrid.y) / mask.cellSize) + eps);
-  const endY = Math.ceil(((maxGY - mask.originGrid.y) / mask.cellSize) - eps) - 1;
-
-  if (startX < 0 || startY < 0 || endX >= mask.width || endY >= mask.height) {
-    return false;
+  const startY = Math.floor((gridPoint.y - half.y - mask.originGrid.y) / mask.cellSizeY + eps);
+  const endY = Math.ceil((gridPoint.y + half.y - mask.originGrid.y) / mask.cellSizeY - eps) - 1;
+  const count = Math.max(0, endY - startY + 1);
+  if (rowSpanBuffer.spans.length < count * 3) {
+    rowSpanBuffer.spans = new Int32Array(count * 3);
   }
-  if (endX < startX || endY < startY) {
-    return false;
+  const spans = rowSpanBuffer.spans;
+  const hex = isHexKind(gridKind);
+  for (let i = 0; i < count; i += 1) {
+    const row = startY + i;
+    let halfWidth = half.x;
+    if (hex) {
+      const rowMin = mask.originGrid.y + row * mask.cellSizeY - gridPoint.y;
+      const rowMax = rowMin + mask.cellSizeY;
+      const nearest = rowMin <= 0 && rowMax >= 0 ? 0 : Math.min(Math.abs(rowMin), Math.abs(rowMax));
+      halfWidth = hexHalfWidthAt(gridKind, gridSpacingX, nearest);
+    }
+    const left = (gridPoint.x - halfWidth - mask.originGrid.x) / mask.cellSizeX;
+    const right = (gridPoint.x + halfWidth - mask.originGrid.x) / mask.cellSizeX;
+    spans[i * 3] = row;
+    spans[i * 3 + 1] = Math.floor(left + eps);
+    spans[i * 3 + 2] = Math.ceil(right - eps) - 1;
   }
-
-  const ps = mask.prefixSum;
-  const stride = mask.width + 1;
-  const x0 = startX;
-  const x1 = endX + 1;
-  const y0 = startY;
-  const y1 = endY + 1;
-  const area =
-    ps[y1 * stride + x1] - ps[y0 * stride + x1] - ps[y1 * stride + x0] + ps[y0 * stride + x0];
-  const expectedArea = (endX - startX + 1) * (endY - startY + 1);
-  return area === expectedArea;
+  return count;
 }
 
 function computeGridBoundsGrid(region: MultiPolygon) {
@@ -329,6 +640,39 @@ function computeGridBoundsGrid(region: MultiPolygon) {
   return { minX, minY, maxX, maxY };
 }
 
+/**
+ * Clears every covered pixel whose box comes closer than `clearance` to an uncovered pixel box, so
+ * cells tested against the mask keep that gap to the boundary. The gap between two pixel boxes
+ * equals the center distance from one to the nearest pixel of the other grown by one pixel in all
+ * eight directions, so the distance transform runs against the grown uncovered set.
+ */
+function erodeMaskByClearance(mask: RasterMask, clearance: number) {
+  const { width, height, data } = mask;
+  const interior = new Uint8Array(width * height);
+  for (let y = 1; y < height - 1; y += 1) {
+    for (let x = 1; x < width - 1; x += 1) {
+      const i = y * width + x;
+      interior[i] =
+        data[i - width - 1] &
+        data[i - width] &
+        data[i - width + 1] &
+        data[i - 1] &
+        data[i] &
+        data[i + 1] &
+        data[i + width - 1] &
+        data[i + width] &
+        data[i + width + 1];
+    }
+  }
+  const squared = squaredDistanceToZeros(interior, width, height, mask.cellSizeX, mask.cellSizeY);
+  const limit = clearance * clearance * (1 - 1e-9);
+  for (let i = 0; i < data.length; i += 1) {
+    if (data[i] && squared[i] < limit) {
+      data[i] = 0;
+    }
+  }
+}
+
 function buildPrefixSum(mask: RasterMask) {
   const { width, height, data, prefixSum } = mask;
   const stride = width + 1;
@@ -360,27 +704,40 @@ function transformRegionToGrid(region: MultiPolygon, grid: GridState): MultiPoly
   );
 }
 
+/** Workers have no document, so prefer OffscreenCanvas wherever it exists. */
+function createRasterCanvas(width: number, height: number): HTMLCanvasElement | OffscreenCanvas {
+  if (typeof OffscreenCanvas !== "undefined") {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
 function fillMaskWithCanvas(mask: RasterMask, regionGrid: MultiPolygon) {
   const SCALE = 4; // fixed oversample to reduce AA variance
-  const canvas = document.createElement("canvas");
-  canvas.width = mask.width * SCALE;
-  canvas.height = mask.height * SCALE;
-  const ctx = canvas.getContext("2d");
+  const canvas = createRasterCanvas(mask.width * SCALE, mask.height * SCALE);
+  const ctx = canvas.getContext("2d") as
+    | CanvasRenderingContext2D
+    | OffscreenCanvasRenderingContext2D
+    | null;
   if (!ctx) {
     throw new Error("Failed to get 2d context for rasterization");
   }
   ctx.imageSmoothingEnabled = false;
   ctx.fillStyle = "#fff";
   ctx.beginPath();
-  const scale = SCALE / mask.cellSize;
-  const offsetX = -mask.originGrid.x * scale;
-  const offsetY = -mask.originGrid.y * scale;
+  const scaleX = SCALE / mask.cellSizeX;
+  const scaleY = SCALE / mask.cellSizeY;
+  const offsetX = -mask.originGrid.x * scaleX;
+  const offsetY = -mask.originGrid.y * scaleY;
 
   regionGrid.forEach((polygon) => {
     polygon.forEach((ring) => {
       ring.forEach(([x, y], idx) => {
-        const px = x * scale + offsetX;
-        const py = y * scale + offsetY;
+        const px = x * scaleX + offsetX;
+        const py = y * scaleY + offsetY;
         if (idx === 0) {
           ctx.moveTo(px, py);
         } else {
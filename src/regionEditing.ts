@@ -0,0 +1,255 @@
+import polygonClipping from "polygon-clipping";
+import { normalizeClipResult } from "./geometry";
+import type { ClipRing, MultiPolygon, RegionVertexRef, Vec2 } from "./state";
+
+type RingPoint = ClipRing[number];
+
+/** Rings whose area falls below this are treated as collapsed and left to the repair pass. */
+const MIN_RING_AREA = 1e-9;
+
+/** Vertices of a ring without the closing duplicate that polygon-clipping output carries. */
+export function ringVertices(ring: ClipRing): ClipRing {
+  const last = ring.length - 1;
+  if (last > 0 && ring[0][0] === ring[last][0] && ring[0][1] === ring[last][1]) {
+    return ring.slice(0, last);
+  }
+  return ring.slice();
+}
+
+export function regionVertexPosition(region: MultiPolygon, ref: RegionVertexRef): Vec2 | null {
+  const point = region[ref.polygon]?.[ref.ring]?.[ref.vertex];
+  return point ? { x: point[0], y: point[1] } : null;
+}
+
+/** Midpoint of the edge that starts at `ref`. */
+export function regionEdgeMidpoint(region: MultiPolygon, ref: RegionVertexRef): Vec2 | null {
+  const ring = region[ref.polygon]?.[ref.ring];
+  if (!ring) {
+    return null;
+  }
+  const vertices = ringVertices(ring);
+  const start = vertices[ref.vertex];
+  const end = vertices[(ref.vertex + 1) % vertices.length];
+  return start && end ? edgeMidpoint(start, end) : null;
+}
+
+/** Closest vertex within `maxDistance` of `target`, in world units. */
+export function findRegionVertex(
+  region: MultiPolygon,
+  target: Vec2,
+  maxDistance: number,
+): RegionVertexRef | null {
+  let best: RegionVertexRef | null = null;
+  let bestDistance = maxDistance;
+  forEachRingVertex(region, (ref, point) => {
+    const distance = Math.hypot(point[0] - target.x, point[1] - target.y);
+    if (distance <= bestDistance) {
+      best = ref;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
+/**
+ * Edge whose midpoint lies within `maxDistance` of `target`. The edge is named by its first
+ * vertex, so inserting there puts the new vertex at `vertex + 1`.
+ */
+export function findRegionEdgeMidpoint(
+  region: MultiPolygon,
+  target: Vec2,
+  maxDistance: number,
+): RegionVertexRef | null {
+  let best: RegionVertexRef | null = null;
+  let bestDistance = maxDistance;
+  forEachRingVertex(region, (ref, point, next) => {
+    const midpoint = edgeMidpoint(point, next);
+    const distance = Math.hypot(midpoint.x - target.x, midpoint.y - target.y);
+    if (distance <= bestDistance) {
+      best = ref;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
+/** Calls `visit` for every vertex with the vertex after it, closing duplicates skipped. */
+export function forEachRingVertex(
+  region: MultiPolygon,
+  visit: (ref: RegionVertexRef, point: RingPoint, next: RingPoint) => void,
+): void {
+  region.forEach((polygon, polygonIndex) => {
+    polygon.forEach((ring, ringIndex) => {
+      const vertices = ringVertices(ring);
+      vertices.forEach((point, vertex) => {
+        const next = vertices[(vertex + 1) % vertices.length];
+        visit({ polygon: polygonIndex, ring: ringIndex, vertex }, point, next);
+      });
+    });
+  });
+}
+
+export function edgeMidpoint(start: RingPoint, end: RingPoint): Vec2 {
+  return { x: (start[0] + end[0]) / 2, y: (start[1] + end[1]) / 2 };
+}
+
+/**
+ * The region with one vertex moved. Edits return a new region and leave the old one untouched,
+ * since undo history keeps regions by reference.
+ */
+export function moveRegionVertex(
+  region: MultiPolygon,
+  ref: RegionVertexRef,
+  point: Vec2,
+): MultiPolygon {
+  return editRing(region, ref, (vertices) => {
+    vertices[ref.vertex] = [point.x, point.y];
+  });
+}
+
+/** The region with a vertex inserted after `ref`, i.e. on the edge that starts there. */
+export function insertRegionVertex(
+  region: MultiPolygon,
+  ref: RegionVertexRef,
+  point: Vec2,
+): MultiPolygon {
+  return editRing(region, ref, (vertices) => {
+    vertices.splice(ref.vertex + 1, 0, [point.x, point.y]);
+  });
+}
+
+/**
+ * The region with one vertex removed. A ring left with fewer than three vertices is dropped, and
+ * dropping an outer ring drops its holes with it.
+ */
+export function deleteRegionVertex(
+  region: MultiPolygon,
+  ref: RegionVertexRef,
+): MultiPolygon | null {
+  const edited = editRing(region, ref, (vertices) => {
+    vertices.splice(ref.vertex, 1);
+  });
+  const kept = edited
+    .map((polygon) => polygon.filter((ring) => ringVertices(ring).length >= 3))
+    .filter((polygon, index) => polygon.length && polygon[0] === edited[index][0]);
+  return normalizeClipResult(kept);
+}
+
+/**
+ * Passes an edited region through polygon-clipping when an edit left a ring degenerate or made
+ * rings cross, which resolves crossings with the non-zero rule. Valid regions come back as they
+ * are, so a vertex inserted on a straight edge is not cleaned away as superfluous.
+ */
+export function repairRegion(region: MultiPolygon | null): MultiPolygon | null {
+  if (!region || !needsRepair(region)) {
+    return region;
+  }
+  return normalizeClipResult(polygonClipping.union(region) as MultiPolygon);
+}
+
+function editRing(
+  region: MultiPolygon,
+  ref: RegionVertexRef,
+  edit: (vertices: ClipRing) => void,
+): MultiPolygon {
+  return region.map((polygon, polygonIndex) => {
+    if (polygonIndex !== ref.polygon) {
+      return polygon;
+    }
+    return polygon.map((ring, ringIndex) => {
+      if (ringIndex !== ref.ring) {
+        return ring;
+      }
+      const vertices = ringVertices(ring);
+      edit(vertices);
+      return vertices.length ? [...vertices, [vertices[0][0], vertices[0][1]]] : vertices;
+    });
+  });
+}
+
+/**
+ * True when a ring has collapsed (under three vertices, no area, a zero-length edge or an edge
+ * that doubles back) or when any two non-adjacent edges, in the same ring or not, touch.
+ */
+function needsRepair(region: MultiPolygon): boolean {
+  const rings = region.flatMap((polygon) => polygon.map(ringVertices));
+  const edges: { start: RingPoint; end: RingPoint; ring: number; index: number }[] = [];
+  for (let ringIndex = 0; ringIndex < rings.length; ringIndex += 1) {
+    const vertices = rings[ringIndex];
+    if (vertices.length < 3 || Math.abs(ringArea(vertices)) < MIN_RING_AREA) {
+      return true;
+    }
+    for (let index = 0; index < vertices.length; index += 1) {
+      const start = vertices[index];
+      const end = vertices[(index + 1) % vertices.length];
+      const after = vertices[(index + 2) % vertices.length];
+      if (start[0] === end[0] && start[1] === end[1]) {
+        return true;
+      }
+      if (orientation(start, end, after) === 0 && dot(start, end, after) > 0) {
+        return true;
+      }
+      edges.push({ start, end, ring: ringIndex, index });
+    }
+  }
+  for (let i = 0; i < edges.length; i += 1) {
+    for (let j = i + 1; j < edges.length; j += 1) {
+      const a = edges[i];
+      const b = edges[j];
+      if (a.ring === b.ring) {
+        const count = rings[a.ring].length;
+        if (b.index === a.index + 1 || (a.index === 0 && b.index === count - 1)) {
+          continue;
+        }
+      }
+      if (segmentsTouch(a.start, a.end, b.start, b.end)) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+function ringArea(vertices: ClipRing): number {
+  let area = 0;
+  vertices.forEach((point, index) => {
+    const next = vertices[(index + 1) % vertices.length];
+    area += point[0] * next[1] - next[0] * point[1];
+  });
+  return area / 2;
+}
+
+function orientation(a: RingPoint, b: RingPoint, c: RingPoint): number {
+  return Math.sign((b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]));
+}
+
+/** Dot product of b→a and b→c; for collinear points, positive when a, b, c doubles back. */
+function dot(a: RingPoint, b: RingPoint, c: RingPoint): number {
+  return (a[0] - b[0]) * (c[0] - b[0]) + (a[1] - b[1]) * (c[1] - b[1]);
+}
+
+/** Whether collinear point `p` lies within the bounding box of segment a–b. */
+function isBetween(a: RingPoint, b: RingPoint, p: RingPoint): boolean {
+  return (
+    Math.min(a[0], b[0]) <= p[0] &&
+    p[0] <= Math.max(a[0], b[0]) &&
+    Math.min(a[1], b[1]) <= p[1] &&
+    p[1] <= Math.max(a[1], b[1])
+  );
+}
+
+function segmentsTouch(a: RingPoint, b: RingPoint, c: RingPoint, d: RingPoint): boolean {
+  const o1 = orientation(a, b, c);
+  const o2 = orientation(a, b, d);
+  const o3 = orientation(c, d, a);
+  const o4 = orientation(c, d, b);
+  if (o1 !== o2 && o3 !== o4) {
+    return true;
+  }
+  return (
+    (o1 === 0 && isBetween(a, b, c)) ||
+    (o2 === 0 && isBetween(a, b, d)) ||
+    (o3 === 0 && isBetween(c, d, a)) ||
+    (o4 === 0 && isBetween(c, d, b))
+  );
+}
@@ -1,24 +1,110 @@
 import { gridToWorld, screenToWorld, worldToGrid, worldToScreen } from "./geometry";
-import { computeAxisTipWorld } from "./gizmo";
-import type { AppState, Vec2 } from "./state";
+import { computeAxisTipWorld, computeYAxisTipWorld } from "./gizmo";
+import { isHexKind, latticeCellCenter, latticeCellOutline, latticePitch } from "./lattice";
+import type { CandidateAngleSource } from "./candidateAngles";
+import { edgeMidpoint, forEachRingVertex } from "./regionEditing";
+import type { SnapResult } from "./snapping";
+import { lassoOutline, shapeOutline } from "./shapes";
+import type {
+  AlignPreview,
+  AppState,
+  CameraState,
+  GridSampleBounds,
+  GridState,
+  RasterResult,
+  RegionVertexRef,
+  Vec2,
+} from "./state";
+
+/** Past this many visible hexagons the outlines would blur together, so they are skipped. */
+const MAX_HEX_GRID_CELLS = 20000;
+const GRID_LINE_STYLE = "rgba(255, 255, 255, 0.08)";
+const PREVIEW_GRID_LINE_STYLE = "rgba(94, 255, 154, 0.22)";
+/** Opacity of the search leader's cells, which stand in for the overlay while a search runs. */
+const PREVIEW_ALPHA = 0.55;
+/** Angle fan rays run from this length for an empty angle to this plus the span for the best. */
+const ANGLE_FAN_MIN_PX = 30;
+const ANGLE_FAN_SPAN_PX = 110;
+const VERTEX_HANDLE_RADIUS = 5;
+const MIDPOINT_HANDLE_RADIUS = 3.5;
+const SNAP_INDICATOR_COLOR = "rgba(255, 214, 102, 0.95)";
+const SNAP_INDICATOR_SIZE = 6;
+
+/** Colour of each candidate angle source, shared by the canvas fan and the toolbar list. */
+export const ANGLE_SOURCE_COLORS: Record<CandidateAngleSource, string> = {
+  edge: "rgba(90, 183, 255, 0.95)",
+  caliper: "rgba(255, 186, 110, 0.95)",
+  principal: "rgba(214, 140, 255, 0.95)",
+  fill: "rgba(244, 244, 244, 0.55)",
+  locked: "rgba(255, 120, 120, 0.95)",
+  warmStart: "rgba(94, 255, 154, 0.95)",
+};
 
 export function renderScene(ctx: CanvasRenderingContext2D, state: AppState): void {
   const { canvas } = ctx;
   const { width, height } = canvas;
   ctx.clearRect(0, 0, width, height);
 
-  drawGrid(ctx, state, width, height);
+  drawGrid(ctx, state.camera, state.grid, width, height, GRID_LINE_STYLE);
   drawRegion(ctx, state);
-  drawRasterOverlay(ctx, state);
+  if (state.alignPreview) {
+    drawAlignPreview(ctx, state.camera, state.alignPreview, width, height);
+  } else {
+    drawRasterOverlay(ctx, state.camera, state.grid, state.raster);
+  }
   drawInProgressPolygon(ctx, state);
+  drawInProgressShape(ctx, state);
+  drawInProgressLasso(ctx, state);
+  if (state.regionEditing) {
+    drawRegionHandles(ctx, state);
+  }
+  if (state.showAngleDebug) {
+    drawAngleFan(ctx, state);
+  }
   drawGridGizmo(ctx, state);
 }
 
-function drawGrid(ctx: CanvasRenderingContext2D, state: AppState, width: number, height: number) {
-  const camera = state.camera;
-  const grid = state.grid;
-  const spacing = grid.spacing;
-  const halfSpacing = spacing / 2;
+/**
+ * One ray per coarse angle of the last search, from the grid origin along the grid's x axis at
+ * that angle. Colour gives the angle's first source and length its best cell count; the best
+ * angle is drawn thicker and sparse estimates dashed.
+ */
+function drawAngleFan(ctx: CanvasRenderingContext2D, state: AppState) {
+  const reports = state.angleReports;
+  if (!reports.length) {
+    return;
+  }
+  const best = Math.max(1, ...reports.map((report) => report.cellCount));
+  const origin = worldToScreen(state.grid.origin, state.camera);
+  ctx.save();
+  reports.forEach((report) => {
+    const length = ANGLE_FAN_MIN_PX + (ANGLE_FAN_SPAN_PX * report.cellCount) / best;
+    ctx.strokeStyle = ANGLE_SOURCE_COLORS[report.sources[0]];
+    ctx.lineWidth = report.cellCount === best ? 3 : 1.5;
+    ctx.setLineDash(report.sparse ? [3, 3] : []);
+    ctx.beginPath();
+    ctx.moveTo(origin.x, origin.y);
+    ctx.lineTo(
+      origin.x + Math.cos(report.angle) * length,
+      origin.y + Math.sin(report.angle) * length,
+    );
+    ctx.stroke();
+  });
+  ctx.restore();
+}
+
+function drawGrid(
+  ctx: CanvasRenderingContext2D,
+  camera: CameraState,
+  grid: GridState,
+  width: number,
+  height: number,
+  strokeStyle: string,
+) {
+  const spacingX = grid.spacingX;
+  const spacingY = grid.spacingY;
+  const halfX = spacingX / 2;
+  const halfY = spacingY / 2;
 
   const screenCorners = [
     { x: 0, y: 0 },
@@ -28,21 +114,27 @@ function drawGrid(ctx: CanvasRenderingContext2D, state: AppState, width: number,
   ];
   const gridCorners = screenCorners.map((corner) => worldToGrid(screenToWorld(corner, camera), grid));
 
-  const gxMin = Math.min(...gridCorners.map((p) => p.x)) - spacing * 2;
-  const gxMax = Math.max(...gridCorners.map((p) => p.x)) + spacing * 2;
-  const gyMin = Math.min(...gridCorners.map((p) => p.y)) - spacing * 2;
-  const gyMax = Math.max(...gridCorners.map((p) => p.y)) + spacing * 2;
+  const gxMin = Math.min(...gridCorners.map((p) => p.x)) - spacingX * 2;
+  const gxMax = Math.max(...gridCorners.map((p) => p.x)) + spacingX * 2;
+  const gyMin = Math.min(...gridCorners.map((p) => p.y)) - spacingY * 2;
+  const gyMax = Math.max(...gridCorners.map((p) => p.y)) + spacingY * 2;
+
+  if (isHexKind(grid.kind)) {
+    const view = { minX: gxMin, maxX: gxMax, minY: gyMin, maxY: gyMax };
+    drawHexGrid(ctx, camera, grid, view, strokeStyle);
+    return;
+  }
 
-  const startGX = Math.floor((gxMin - halfSpacing) / spacing);
-  const endGX = Math.ceil((gxMax - halfSpacing) / spacing);
-  const startGY = Math.floor((gyMin - halfSpacing) / spacing);
-  const endGY = Math.ceil((gyMax - halfSpacing) / spacing);
+  const startGX = Math.floor((gxMin - halfX) / spacingX);
+  const endGX = Math.ceil((gxMax - halfX) / spacingX);
+  const startGY = Math.floor((gyMin - halfY) / spacingY);
+  const endGY = Math.ceil((gyMax - halfY) / spacingY);
 
   ctx.lineWidth = 1;
-  ctx.strokeStyle = "rgba(255, 255, 255, 0.08)";
+  ctx.strokeStyle = strokeStyle;
 
   for (let i = startGX; i <= endGX; i += 1) {
-    const gx = i * spacing + halfSpacing;
+    const gx = i * spacingX + halfX;
     const p0 = worldToScreen(gridToWorld({ x: gx, y: gyMin }, grid), camera);
     const p1 = worldToScreen(gridToWorld({ x: gx, y: gyMax }, grid), camera);
     ctx.beginPath();
@@ -52,7 +144,7 @@ function drawGrid(ctx: CanvasRenderingContext2D, state: AppState, width: number,
   }
 
   for (let j = startGY; j <= endGY; j += 1) {
-    const gy = j * spacing + halfSpacing;
+    const gy = j * spacingY + halfY;
     const p0 = worldToScreen(gridToWorld({ x: gxMin, y: gy }, grid), camera);
     const p1 = worldToScreen(gridToWorld({ x: gxMax, y: gy }, grid), camera);
     ctx.beginPath();
@@ -62,6 +154,54 @@ function drawGrid(ctx: CanvasRenderingContext2D, state: AppState, width: number,
   }
 }
 
+/** Strokes every hexagon whose center falls inside `view`, given in grid coordinates. */
+function drawHexGrid(
+  ctx: CanvasRenderingContext2D,
+  camera: CameraState,
+  grid: GridState,
+  view: GridSampleBounds,
+  strokeStyle: string,
+) {
+  const pitch = latticePitch(grid.kind, grid.spacingX, grid.spacingY);
+  const outline = latticeCellOutline(grid.kind, grid.spacingX, grid.spacingY);
+  const startGX = Math.floor(view.minX / pitch.x);
+  const endGX = Math.ceil(view.maxX / pitch.x);
+  const startGY = Math.floor(view.minY / pitch.y);
+  const endGY = Math.ceil(view.maxY / pitch.y);
+  if ((endGX - startGX + 1) * (endGY - startGY + 1) > MAX_HEX_GRID_CELLS) {
+    return;
+  }
+
+  ctx.lineWidth = 1;
+  ctx.strokeStyle = strokeStyle;
+  ctx.beginPath();
+  for (let gy = startGY; gy <= endGY; gy += 1) {
+    for (let gx = startGX; gx <= endGX; gx += 1) {
+      traceCellOutline(ctx, camera, grid, latticeCellCenter(grid.kind, pitch, gx, gy), outline);
+    }
+  }
+  ctx.stroke();
+}
+
+function traceCellOutline(
+  ctx: CanvasRenderingContext2D,
+  camera: CameraState,
+  grid: GridState,
+  center: Vec2,
+  outline: Vec2[],
+) {
+  outline.forEach((corner, index) => {
+    const world = gridToWorld({ x: center.x + corner.x, y: center.y + corner.y }, grid);
+    const screen = worldToScreen(world, camera);
+    if (index === 0) {
+      ctx.moveTo(screen.x, screen.y);
+    } else {
+      ctx.lineTo(screen.x, screen.y);
+    }
+  });
+  ctx.closePath();
+}
+
 function drawRegion(ctx: CanvasRenderingContext2D, state: AppState) {
   if (!state.region) {
     return;
@@ -87,10 +227,31 @@ function drawRegion(ctx: CanvasRenderingContext2D, state: AppState) {
   });
 
   ctx.fill("evenodd");
+  if (state.clearance > 0) {
+    drawClearanceZone(ctx, state.clearance * state.camera.zoom);
+  }
+  ctx.stroke();
+}
+
+/**
+ * Shades the band inside the region that cells must keep clear of: the current region path stroked
+ * at twice the clearance, clipped to the region so only the inner half shows.
+ */
+function drawClearanceZone(ctx: CanvasRenderingContext2D, clearancePx: number) {
+  ctx.save();
+  ctx.clip("evenodd");
+  ctx.strokeStyle = "rgba(255, 170, 80, 0.25)";
+  ctx.lineWidth = clearancePx * 2;
+  ctx.lineJoin = "round";
   ctx.stroke();
+  ctx.restore();
 }
 
 function drawInProgressPolygon(ctx: CanvasRenderingContext2D, state: AppState) {
+  if (state.polygonMode && state.drawingSnap) {
+    const guideLength = Math.max(ctx.canvas.width, ctx.canvas.height);
+    drawSnapIndicator(ctx, state.camera, state.drawingSnap, guideLength);
+  }
   if (!state.drawingPolygon.length) {
     return;
   }
@@ -148,10 +309,172 @@ function drawInProgressPolygon(ctx: CanvasRenderingContext2D, state: AppState) {
   }
 }
 
+/**
+ * Marks where the next point will land, shaped by what it snapped to: a square for a region
+ * vertex, a diamond for a region edge, a cross for a cell corner, a ring for a grid line, and for
+ * angle snaps a dashed guide along the snapped direction.
+ */
+function drawSnapIndicator(
+  ctx: CanvasRenderingContext2D,
+  camera: CameraState,
+  snap: SnapResult,
+  guideLength: number,
+) {
+  const point = worldToScreen(snap.point, camera);
+  const size = SNAP_INDICATOR_SIZE;
+  ctx.save();
+  ctx.strokeStyle = SNAP_INDICATOR_COLOR;
+  ctx.lineWidth = 1.5;
+  ctx.beginPath();
+  if (snap.kind === "vertex") {
+    ctx.rect(point.x - size, point.y - size, size * 2, size * 2);
+  } else if (snap.kind === "edge") {
+    ctx.moveTo(point.x, point.y - size);
+    ctx.lineTo(point.x + size, point.y);
+    ctx.lineTo(point.x, point.y + size);
+    ctx.lineTo(point.x - size, point.y);
+    ctx.closePath();
+  } else if (snap.kind === "gridCorner") {
+    ctx.moveTo(point.x - size, point.y - size);
+    ctx.lineTo(point.x + size, point.y + size);
+    ctx.moveTo(point.x + size, point.y - size);
+    ctx.lineTo(point.x - size, point.y + size);
+  } else {
+    ctx.arc(point.x, point.y, size * 0.75, 0, Math.PI * 2);
+  }
+  ctx.stroke();
+  if (snap.kind === "angle" && snap.anchor) {
+    const anchor = worldToScreen(snap.anchor, camera);
+    const length = Math.hypot(point.x - anchor.x, point.y - anchor.y);
+    if (length > 0) {
+      const scale = guideLength / length;
+      ctx.setLineDash([2, 4]);
+      ctx.beginPath();
+      ctx.moveTo(anchor.x, anchor.y);
+      ctx.lineTo(anchor.x + (point.x - anchor.x) * scale, anchor.y + (point.y - anchor.y) * scale);
+      ctx.stroke();
+    }
+  }
+  ctx.restore();
+}
+
+/**
+ * Edit mode handles: a filled square per region vertex and a hollow circle on every edge midpoint,
+ * where clicking inserts a vertex. The selected vertex is drawn in the accent colour.
+ */
+function drawRegionHandles(ctx: CanvasRenderingContext2D, state: AppState) {
+  if (!state.region) {
+    return;
+  }
+  ctx.save();
+  ctx.lineWidth = 1.5;
+  forEachRingVertex(state.region, (ref, point, next) => {
+    const midpoint = worldToScreen(edgeMidpoint(point, next), state.camera);
+    const midpointHovered = sameVertex(ref, state.hoveredEdge);
+    ctx.strokeStyle = midpointHovered ? "rgba(255, 255, 255, 0.95)" : "rgba(90, 183, 255, 0.8)";
+    ctx.fillStyle = "rgba(12, 12, 12, 0.8)";
+    ctx.beginPath();
+    ctx.arc(
+      midpoint.x,
+      midpoint.y,
+      MIDPOINT_HANDLE_RADIUS + (midpointHovered ? 1.5 : 0),
+      0,
+      Math.PI * 2,
+    );
+    ctx.fill();
+    ctx.stroke();
+
+    const screen = worldToScreen({ x: point[0], y: point[1] }, state.camera);
+    const selected = sameVertex(ref, state.selectedVertex);
+    const size = VERTEX_HANDLE_RADIUS + (sameVertex(ref, state.hoveredVertex) ? 1.5 : 0);
+    ctx.fillStyle = selected ? "rgba(255, 186, 110, 0.95)" : "rgba(200, 230, 255, 0.95)";
+    ctx.strokeStyle = "rgba(12, 12, 12, 0.8)";
+    ctx.fillRect(screen.x - size, screen.y - size, size * 2, size * 2);
+    ctx.strokeRect(screen.x - size, screen.y - size, size * 2, size * 2);
+  });
+  ctx.restore();
+}
+
+function sameVertex(a: RegionVertexRef, b: RegionVertexRef | null): boolean {
+  return !!b && a.polygon === b.polygon && a.ring === b.ring && a.vertex === b.vertex;
+}
+
+/** Outline of the shape being dragged, styled like an in-progress polygon. */
+function drawInProgressShape(ctx: CanvasRenderingContext2D, state: AppState) {
+  if (!state.drawingShape) {
+    return;
+  }
+  const outline = shapeOutline(state.drawingShape, state.shapeSettings, state.grid.angle);
+  const isSubtracting = state.polygonMode === "subtract";
+  ctx.save();
+  ctx.lineWidth = 2;
+  ctx.strokeStyle = isSubtracting ? "rgba(255, 120, 120, 0.95)" : "rgba(120, 255, 180, 0.95)";
+  ctx.fillStyle = isSubtracting ? "rgba(255, 120, 120, 0.12)" : "rgba(120, 255, 180, 0.12)";
+  ctx.setLineDash([6, 4]);
+  ctx.beginPath();
+  outline.forEach((point, index) => {
+    const screen = worldToScreen(point, state.camera);
+    if (index === 0) {
+      ctx.moveTo(screen.x, screen.y);
+    } else {
+      ctx.lineTo(screen.x, screen.y);
+    }
+  });
+  ctx.closePath();
+  ctx.fill();
+  ctx.stroke();
+  ctx.restore();
+}
+
+/**
+ * The traced lasso path drawn faintly, with the simplified outline that will be committed on
+ * release over it, closed and with its kept vertices marked.
+ */
+function drawInProgressLasso(ctx: CanvasRenderingContext2D, state: AppState) {
+  if (state.drawingLasso.length < 2) {
+    return;
+  }
+  const isSubtracting = state.polygonMode === "subtract";
+  const trace = (points: Vec2[]) => {
+    ctx.beginPath();
+    points.forEach((point, index) => {
+      const screen = worldToScreen(point, state.camera);
+      if (index === 0) {
+        ctx.moveTo(screen.x, screen.y);
+      } else {
+        ctx.lineTo(screen.x, screen.y);
+      }
+    });
+  };
+  ctx.save();
+  ctx.lineWidth = 1;
+  ctx.strokeStyle = "rgba(255, 255, 255, 0.3)";
+  trace(state.drawingLasso);
+  ctx.stroke();
+
+  const outline = lassoOutline(state.drawingLasso, state.camera.zoom);
+  ctx.lineWidth = 2;
+  ctx.strokeStyle = isSubtracting ? "rgba(255, 120, 120, 0.95)" : "rgba(120, 255, 180, 0.95)";
+  ctx.fillStyle = isSubtracting ? "rgba(255, 120, 120, 0.12)" : "rgba(120, 255, 180, 0.12)";
+  ctx.setLineDash([6, 4]);
+  trace(outline);
+  ctx.closePath();
+  ctx.fill();
+  ctx.stroke();
+  ctx.setLineDash([]);
+  ctx.fillStyle = isSubtracting ? "rgba(255, 150, 150, 0.95)" : "rgba(170, 255, 200, 0.95)";
+  outline.forEach((point) => {
+    const screen = worldToScreen(point, state.camera);
+    ctx.fillRect(screen.x - 2, screen.y - 2, 4, 4);
+  });
+  ctx.restore();
+}
+
 function drawGridGizmo(ctx: CanvasRenderingContext2D, state: AppState) {
   const originScreen = worldToScreen(state.grid.origin, state.camera);
   const axisWorld = computeAxisTipWorld(state.grid, state.camera);
   const axisScreen = worldToScreen(axisWorld, state.camera);
+  const yAxisScreen = worldToScreen(computeYAxisTipWorld(state.grid, state.camera), state.camera);
 
   const originActive =
     state.hoveredGizmo === "origin" || state.interactionMode === "dragging_grid_origin";
@@ -173,6 +496,13 @@ function drawGridGizmo(ctx: CanvasRenderingContext2D, state: AppState) {
   ctx.lineTo(originScreen.x, originScreen.y + 6);
   ctx.stroke();
 
+  ctx.strokeStyle = "rgba(255, 255, 255, 0.35)";
+  ctx.lineWidth = 1.5;
+  ctx.beginPath();
+  ctx.moveTo(originScreen.x, originScreen.y);
+  ctx.lineTo(yAxisScreen.x, yAxisScreen.y);
+  ctx.stroke();
+
   ctx.strokeStyle = axisActive ? "rgba(255, 186, 110, 0.95)" : "rgba(255, 255, 255, 0.6)";
   ctx.lineWidth = axisActive ? 3 : 2;
   ctx.beginPath();
@@ -193,43 +523,48 @@ function drawGridGizmo(ctx: CanvasRenderingContext2D, state: AppState) {
   }
 }
 
-function drawRasterOverlay(ctx: CanvasRenderingContext2D, state: AppState) {
-  const raster = state.raster;
+function drawRasterOverlay(
+  ctx: CanvasRenderingContext2D,
+  camera: CameraState,
+  grid: GridState,
+  raster: RasterResult | null,
+) {
   if (!raster) {
     return;
   }
-  const grid = state.grid;
-  const half = grid.spacing / 2;
-
-  ctx.fillStyle = "rgba(94, 255, 154, 0.35)";
-  ctx.strokeStyle = "rgba(94, 255, 154, 0.8)";
+  const pitch = latticePitch(grid.kind, grid.spacingX, grid.spacingY);
+  const outline = latticeCellOutline(grid.kind, grid.spacingX, grid.spacingY);
 
-  for (let iy = raster.gridSampleBounds.minY; iy <= raster.gridSampleBounds.maxY; iy += 1) {
-    for (let ix = raster.gridSampleBounds.minX; ix <= raster.gridSampleBounds.maxX; ix += 1) {
-      const key = `${ix},${iy}`;
-      if (!raster.insideCells.has(key)) {
-        continue;
-      }
-      const gridCenter: Vec2 = { x: ix * grid.spacing, y: iy * grid.spacing };
-      const cornersGrid: Vec2[] = [
-        { x: gridCenter.x - half, y: gridCenter.y - half },
-        { x: gridCenter.x + half, y: gridCenter.y - half },
-        { x: gridCenter.x + half, y: gridCenter.y + half },
-        { x: gridCenter.x - half, y: gridCenter.y + half },
-      ];
-      ctx.beginPath();
-      cornersGrid.forEach((corner, index) => {
-        const world = gridToWorld(corner, grid);
-        const screen = worldToScreen(world, state.camera);
-        if (index === 0) {
-          ctx.moveTo(screen.x, screen.y);
-        } else {
-          ctx.lineTo(screen.x, screen.y);
-        }
-      });
-      ctx.closePath();
-      ctx.fill();
-      ctx.stroke();
+  const { insideCells, cellCoverage } = raster;
+  insideCells.forEach((ix, iy) => {
+    // Cells accepted below full coverage stand out from the ones lying wholly inside.
+    const coverage = cellCoverage[insideCells.indexOf(ix, iy)] ?? 1;
+    if (coverage < 1) {
+      ctx.fillStyle = `rgba(255, 214, 102, ${(0.15 + 0.2 * coverage).toFixed(3)})`;
+      ctx.strokeStyle = "rgba(255, 214, 102, 0.8)";
+    } else {
+      ctx.fillStyle = "rgba(94, 255, 154, 0.35)";
+      ctx.strokeStyle = "rgba(94, 255, 154, 0.8)";
     }
-  }
+    ctx.beginPath();
+    traceCellOutline(ctx, camera, grid, latticeCellCenter(grid.kind, pitch, ix, iy), outline);
+    ctx.fill();
+    ctx.stroke();
+  });
+}
+
+/** Ghosts the running search's leader: its grid lines and, faded, the cells it would count. */
+function drawAlignPreview(
+  ctx: CanvasRenderingContext2D,
+  camera: CameraState,
+  preview: AlignPreview,
+  width: number,
+  height: number,
+) {
+  drawGrid(ctx, camera, preview.grid, width, height, PREVIEW_GRID_LINE_STYLE);
+  ctx.save();
+  ctx.globalAlpha = PREVIEW_ALPHA;
+  ctx.setLineDash([4, 3]);
+  drawRasterOverlay(ctx, camera, preview.grid, preview.raster);
+  ctx.restore();
 }
@@ -0,0 +1,147 @@
+import type { MultiPolygon, RasterMask, Vec2 } from "./state";
+
+const SNAP_EPSILON = 1e-9;
+
+/**
+ * Fills mask.data with 1 for every raster cell that lies completely inside the region (even-odd
+ * rule) and 0 otherwise. A cell counts as covered when its center is inside and no region edge
+ * passes through its open interior, which is exact rather than an anti-aliasing approximation.
+ * Edges that only run along a cell border do not reject the cell.
+ */
+export function fillMaskWithScanline(mask: RasterMask, regionGrid: MultiPolygon): void {
+  const { width, height, data, originGrid } = mask;
+  data.fill(0);
+  const edges = collectEdges(regionGrid, originGrid, 1 / mask.cellSizeX, 1 / mask.cellSizeY);
+  const edgeCount = edges.length / 4;
+  if (edgeCount === 0) {
+    return;
+  }
+
+  const crossings = new Float64Array(edgeCount);
+  const blocked = new Uint8Array(width);
+
+  for (let row = 0; row < height; row += 1) {
+    const rowStart = row * width;
+    const yc = row + 0.5;
+    let crossingCount = 0;
+    blocked.fill(0);
+
+    for (let e = 0; e < edgeCount; e += 1) {
+      const base = e * 4;
+      const x0 = edges[base];
+      const y0 = edges[base + 1];
+      const x1 = edges[base + 2];
+      const y1 = edges[base + 3];
+
+      // Even-odd crossing at the row center, half-open so shared vertices are counted once.
+      if ((y0 <= yc) !== (y1 <= yc)) {
+        crossings[crossingCount] = x0 + ((yc - y0) * (x1 - x0)) / (y1 - y0);
+        crossingCount += 1;
+      }
+
+      markEdgeInRow(blocked, width, row, x0, y0, x1, y1);
+    }
+
+    if (crossingCount < 2) {
+      continue;
+    }
+    const sorted = crossings.subarray(0, crossingCount).sort();
+    for (let i = 0; i + 1 < crossingCount; i += 2) {
+      const start = Math.max(0, Math.ceil(sorted[i] - 0.5));
+      const end = Math.min(width, Math.ceil(sorted[i + 1] - 0.5));
+      for (let x = start; x < end; x += 1) {
+        if (!blocked[x]) {
+          data[rowStart + x] = 1;
+        }
+      }
+    }
+  }
+}
+
+/** Edges as flat [x0, y0, x1, y1] quads in raster cell units. */
+function collectEdges(region: MultiPolygon, origin: Vec2, scaleX: number, scaleY: number) {
+  let count = 0;
+  region.forEach((polygon) => {
+    polygon.forEach((ring) => {
+      count += ring.length;
+    });
+  });
+  const edges = new Float64Array(count * 4);
+  let e = 0;
+  region.forEach((polygon) => {
+    polygon.forEach((ring) => {
+      for (let i = 0; i < ring.length; i += 1) {
+        const [ax, ay] = ring[i];
+        const [bx, by] = ring[(i + 1) % ring.length];
+        if (ax === bx && ay === by) {
+          continue;
+        }
+        edges[e] = snapToPixelBoundary((ax - origin.x) * scaleX);
+        edges[e + 1] = snapToPixelBoundary((ay - origin.y) * scaleY);
+        edges[e + 2] = snapToPixelBoundary((bx - origin.x) * scaleX);
+        edges[e + 3] = snapToPixelBoundary((by - origin.y) * scaleY);
+        e += 4;
+      }
+    });
+  });
+  return edges.subarray(0, e);
+}
+
+/**
+ * Rotating by a multiple of 90° leaves rounding noise on edges that should lie exactly on a pixel
+ * border; without snapping, such an edge would run through the row interior and block it.
+ */
+function snapToPixelBoundary(value: number): number {
+  const rounded = Math.round(value);
+  return Math.abs(value - rounded) < SNAP_EPSILON * Math.max(1, Math.abs(value)) ? rounded : value;
+}
+
+/**
+ * Flags every cell of `row` whose open interior the edge passes through. The edge is clipped to the
+ * row's y-range first; an edge that only touches the row boundary leaves the row untouched.
+ */
+function markEdgeInRow(
+  blocked: Uint8Array,
+  width: number,
+  row: number,
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number,
+) {
+  const rowMin = row;
+  const rowMax = row + 1;
+  const edgeMinY = Math.min(y0, y1);
+  const edgeMaxY = Math.max(y0, y1);
+  if (edgeMaxY < rowMin || edgeMinY > rowMax) {
+    return;
+  }
+
+  let minX: number;
+  let maxX: number;
+  if (y0 === y1) {
+    // Horizontal edges only matter when strictly inside the row.
+    if (y0 <= rowMin || y0 >= rowMax) {
+      return;
+    }
+    minX = Math.min(x0, x1);
+    maxX = Math.max(x0, x1);
+  } else {
+    const clipMinY = Math.max(edgeMinY, rowMin);
+    const clipMaxY = Math.min(edgeMaxY, rowMax);
+    if (clipMaxY <= clipMinY) {
+      return;
+    }
+    const slope = (x1 - x0) / (y1 - y0);
+    const xa = x0 + (clipMinY - y0) * slope;
+    const xb = x0 + (clipMaxY - y0) * slope;
+    minX = Math.min(xa, xb);
+    maxX = Math.max(xa, xb);
+  }
+
+  const start = Math.max(0, Math.floor(minX));
+  const end = Math.min(width - 1, Math.ceil(maxX) - 1);
+  for (let x = start; x <= end; x += 1) {
+    blocked[x] = 1;
+  }
+}
@@ -0,0 +1,111 @@
+import { rotate, simplifyPolyline } from "./geometry";
+import type { Vec2 } from "./state";
+
+/**
+ * How clicks or a drag turn into a polygon: click-by-click, one of the drag-to-size shapes, or a
+ * freehand lasso.
+ */
+export type DrawTool = "polygon" | "rectangle" | "ellipse" | "ngon" | "lasso";
+export type ShapeTool = Exclude<DrawTool, "polygon" | "lasso">;
+
+export interface ShapeSettings {
+  /** Whether rectangles and ellipses are drawn in the grid's rotated frame rather than upright. */
+  followGrid: boolean;
+  /** Number of segments approximating an ellipse. */
+  ellipseSegments: number;
+  /** Number of sides of a regular polygon. */
+  ngonSides: number;
+}
+
+export const DEFAULT_SHAPE_SETTINGS: ShapeSettings = {
+  followGrid: true,
+  ellipseSegments: 48,
+  ngonSides: 6,
+};
+
+export const MIN_ELLIPSE_SEGMENTS = 8;
+export const MIN_NGON_SIDES = 3;
+
+/** Step, in degrees, that a constrained N-gon's rotation snaps to. */
+const NGON_ROTATION_STEP_DEGREES = 15;
+/** Farthest, in screen pixels, a simplified lasso outline may stray from the traced path. */
+const LASSO_TOLERANCE_PX = 3;
+
+/** A shape being dragged out, in world coordinates. */
+export interface ShapeDrag {
+  tool: ShapeTool;
+  start: Vec2;
+  end: Vec2;
+  /**
+   * Shift: squares and circles instead of rectangles and ellipses, and N-gon rotations in
+   * fixed steps.
+   */
+  constrain: boolean;
+}
+
+/**
+ * Outline of a dragged shape. Rectangles and ellipses span the drag as a bounding box, in the
+ * frame rotated by `frameAngle`; N-gons are centered on the drag start with a vertex at its end.
+ */
+export function shapeOutline(
+  drag: ShapeDrag,
+  settings: ShapeSettings,
+  frameAngle: number,
+): Vec2[] {
+  if (drag.tool === "ngon") {
+    return ngonOutline(drag, Math.max(MIN_NGON_SIDES, Math.round(settings.ngonSides)));
+  }
+  const angle = settings.followGrid ? frameAngle : 0;
+  const delta = rotate({ x: drag.end.x - drag.start.x, y: drag.end.y - drag.start.y }, -angle);
+  if (drag.constrain) {
+    const side = Math.max(Math.abs(delta.x), Math.abs(delta.y));
+    delta.x = Math.sign(delta.x || 1) * side;
+    delta.y = Math.sign(delta.y || 1) * side;
+  }
+  const toWorld = (local: Vec2): Vec2 => {
+    const rotated = rotate(local, angle);
+    return { x: drag.start.x + rotated.x, y: drag.start.y + rotated.y };
+  };
+  if (drag.tool === "rectangle") {
+    return [
+      { x: 0, y: 0 },
+      { x: delta.x, y: 0 },
+      { x: delta.x, y: delta.y },
+      { x: 0, y: delta.y },
+    ].map(toWorld);
+  }
+  const segments = Math.max(MIN_ELLIPSE_SEGMENTS, Math.round(settings.ellipseSegments));
+  const center = { x: delta.x / 2, y: delta.y / 2 };
+  return Array.from({ length: segments }, (_, index) => {
+    const t = (index / segments) * Math.PI * 2;
+    return toWorld({
+      x: center.x + Math.cos(t) * center.x,
+      y: center.y + Math.sin(t) * center.y,
+    });
+  });
+}
+
+function ngonOutline(drag: ShapeDrag, sides: number): Vec2[] {
+  const offset = { x: drag.end.x - drag.start.x, y: drag.end.y - drag.start.y };
+  const radius = Math.hypot(offset.x, offset.y);
+  let rotation = Math.atan2(offset.y, offset.x);
+  if (drag.constrain) {
+    const step = (NGON_ROTATION_STEP_DEGREES * Math.PI) / 180;
+    rotation = Math.round(rotation / step) * step;
+  }
+  return Array.from({ length: sides }, (_, index) => {
+    const t = rotation + (index / sides) * Math.PI * 2;
+    return {
+      x: drag.start.x + Math.cos(t) * radius,
+      y: drag.start.y + Math.sin(t) * radius,
+    };
+  });
+}
+
+/**
+ * Outline of a freehand lasso path, simplified to a tolerance fixed in screen pixels so the
+ * outline keeps the detail that was visible while tracing at `zoom`.
+ */
+export function lassoOutline(path: Vec2[], zoom: number): Vec2[] {
+  return simplifyPolyline(path, LASSO_TOLERANCE_PX / zoom);
+}
@@ -0,0 +1,171 @@
+import { closestPointOnSegment, gridToWorld, worldToGrid } from "./geometry";
+import { latticeCellCenter, latticeCellOutline, latticePitch } from "./lattice";
+import { forEachRingVertex } from "./regionEditing";
+import type { GridState, MultiPolygon, Vec2 } from "./state";
+
+/** Step, in degrees, that Shift snaps segment angles to relative to the previous segment. */
+export const ANGLE_SNAP_STEP_DEGREES = 15;
+
+export type GridSnapMode = "off" | "lines" | "corners";
+
+/** Which targets points snap to while drawing. Angle snapping is held with Shift instead. */
+export interface SnapSettings {
+  vertices: boolean;
+  edges: boolean;
+  grid: GridSnapMode;
+}
+
+export type SnapKind = "vertex" | "edge" | "gridCorner" | "gridLine" | "angle";
+
+export interface SnapResult {
+  point: Vec2;
+  kind: SnapKind;
+  /** Start of the guide ray for angle snaps: the last placed point. */
+  anchor?: Vec2;
+}
+
+export interface SnapContext {
+  region: MultiPolygon | null;
+  grid: GridState;
+  /** Points placed so far in the polygon being drawn. */
+  drawing: Vec2[];
+  settings: SnapSettings;
+  /** How far, in world units, a target may be from the cursor and still catch it. */
+  tolerance: number;
+  /** Snap the new segment's direction to multiples of this step, in radians; null for off. */
+  angleStep: number | null;
+}
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = {
+  vertices: true,
+  edges: true,
+  grid: "off",
+};
+
+/**
+ * Where a drawing click at `cursor` should land, or null to use the cursor as is. Angle snapping
+ * wins while held, then region vertices, region edges, and finally the grid, so the most specific
+ * target in reach is used.
+ */
+export function snapDrawingPoint(cursor: Vec2, context: SnapContext): SnapResult | null {
+  const { region, grid, drawing, settings, tolerance, angleStep } = context;
+  if (angleStep && drawing.length) {
+    return snapToAngle(cursor, drawing, grid.angle, angleStep);
+  }
+  if (region && settings.vertices) {
+    const vertex = nearestRegionVertex(region, cursor, tolerance);
+    if (vertex) {
+      return { point: vertex, kind: "vertex" };
+    }
+  }
+  if (region && settings.edges) {
+    const edge = nearestRegionEdgePoint(region, cursor, tolerance);
+    if (edge) {
+      return { point: edge, kind: "edge" };
+    }
+  }
+  if (settings.grid !== "off") {
+    return snapToGrid(cursor, grid, settings.grid, tolerance);
+  }
+  return null;
+}
+
+/**
+ * Projects the cursor onto the nearest ray from the last point whose direction is a multiple of
+ * `step` away from the previous segment, or from the grid x axis for the first segment.
+ */
+function snapToAngle(cursor: Vec2, drawing: Vec2[], gridAngle: number, step: number): SnapResult {
+  const anchor = drawing[drawing.length - 1];
+  const previous = drawing[drawing.length - 2];
+  const reference = previous
+    ? Math.atan2(anchor.y - previous.y, anchor.x - previous.x)
+    : gridAngle;
+  const offset = { x: cursor.x - anchor.x, y: cursor.y - anchor.y };
+  const relative = Math.atan2(offset.y, offset.x) - reference;
+  const angle = reference + Math.round(relative / step) * step;
+  const direction = { x: Math.cos(angle), y: Math.sin(angle) };
+  const length = Math.max(0, offset.x * direction.x + offset.y * direction.y);
+  return {
+    point: { x: anchor.x + direction.x * length, y: anchor.y + direction.y * length },
+    kind: "angle",
+    anchor,
+  };
+}
+
+function nearestRegionVertex(region: MultiPolygon, cursor: Vec2, tolerance: number): Vec2 | null {
+  let best: Vec2 | null = null;
+  let bestDistance = tolerance;
+  forEachRingVertex(region, (_, point) => {
+    const distance = Math.hypot(point[0] - cursor.x, point[1] - cursor.y);
+    if (distance <= bestDistance) {
+      best = { x: point[0], y: point[1] };
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
+function nearestRegionEdgePoint(
+  region: MultiPolygon,
+  cursor: Vec2,
+  tolerance: number,
+): Vec2 | null {
+  let best: Vec2 | null = null;
+  let bestDistance = tolerance;
+  forEachRingVertex(region, (_, start, end) => {
+    const closest = closestPointOnSegment(
+      cursor,
+      { x: start[0], y: start[1] },
+      { x: end[0], y: end[1] },
+    );
+    const distance = Math.hypot(closest.x - cursor.x, closest.y - cursor.y);
+    if (distance <= bestDistance) {
+      best = closest;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
+/**
+ * Snaps to the outlines of the cells around the cursor: their corners, or with "lines" the
+ * closest point on any of their edges. Works in grid space so every grid kind is handled alike.
+ */
+function snapToGrid(
+  cursor: Vec2,
+  grid: GridState,
+  mode: GridSnapMode,
+  tolerance: number,
+): SnapResult | null {
+  const local = worldToGrid(cursor, grid);
+  const pitch = latticePitch(grid.kind, grid.spacingX, grid.spacingY);
+  const outline = latticeCellOutline(grid.kind, grid.spacingX, grid.spacingY);
+  const column = Math.round(local.x / pitch.x);
+  const row = Math.round(local.y / pitch.y);
+  let best: Vec2 | null = null;
+  let bestDistance = tolerance;
+  const consider = (candidate: Vec2) => {
+    const distance = Math.hypot(candidate.x - local.x, candidate.y - local.y);
+    if (distance <= bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  };
+  for (let gy = row - 1; gy <= row + 1; gy += 1) {
+    for (let gx = column - 1; gx <= column + 1; gx += 1) {
+      const center = latticeCellCenter(grid.kind, pitch, gx, gy);
+      const corners = outline.map((corner) => ({ x: center.x + corner.x, y: center.y + corner.y }));
+      corners.forEach((corner, index) => {
+        if (mode === "corners") {
+          consider(corner);
+        } else {
+          consider(closestPointOnSegment(local, corner, corners[(index + 1) % corners.length]));
+        }
+      });
+    }
+  }
+  if (!best) {
+    return null;
+  }
+  return { point: gridToWorld(best, grid), kind: mode === "corners" ? "gridCorner" : "gridLine" };
+}
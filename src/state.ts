@@ -1,3 +1,15 @@
+import type {
+  AlignmentConstraints,
+  CandidateAngleReport,
+  GridAlignmentResult,
+  SpacingSearch,
+} from "./gridAlignment";
+import type { CellSet } from "./cellSet";
+import { DEFAULT_SNAP_SETTINGS } from "./snapping";
+import type { SnapResult, SnapSettings } from "./snapping";
+import { DEFAULT_SHAPE_SETTINGS } from "./shapes";
+import type { DrawTool, ShapeDrag, ShapeSettings } from "./shapes";
+
 export type Vec2 = {
   x: number;
   y: number;
@@ -7,13 +19,47 @@ export type ClipRing = [number, number][];
 export type ClipPolygon = ClipRing[];
 export type MultiPolygon = ClipPolygon[];
 
+/** Rectangular cells, or regular hexagons with a vertex ("pointy") or an edge ("flat") on top. */
+export type GridKind = "rect" | "hex-pointy" | "hex-flat";
+
+/**
+ * When two covered cells belong to the same area: "edge" joins cells that share an edge, "corner"
+ * also joins cells that only touch at a corner. Hex cells never meet at a bare corner, so both
+ * behave the same on hex grids.
+ */
+export type CellConnectivity = "edge" | "corner";
+
+/**
+ * Which connected areas are counted: the largest one, all of them, or every area with at least
+ * `minComponentSize` cells.
+ */
+export type ComponentAggregation = "largest" | "all" | "minSize";
+
+export interface ComponentRule {
+  connectivity: CellConnectivity;
+  aggregation: ComponentAggregation;
+  minComponentSize: number;
+}
+
+export const DEFAULT_COMPONENT_RULE: ComponentRule = {
+  connectivity: "edge",
+  aggregation: "largest",
+  minComponentSize: 4,
+};
+
 export interface GridState {
   /** Origin of the rotated grid in world space */
   origin: Vec2;
   /** Rotation in radians, counter-clockwise */
   angle: number;
-  /** Grid spacing measured in world units */
-  spacing: number;
+  kind: GridKind;
+  /**
+   * Cell width along the grid x axis, measured in world units. For hex grids this is the distance
+   * between neighbouring cell centers.
+   */
+  spacingX: number;
+  /** Cell height along the grid y axis, measured in world units. Unused by hex grids. */
+  spacingY: number;
 }
 
 export interface CameraState {
@@ -33,7 +79,17 @@ export type InteractionMode =
   | "idle"
   | "drawing_polygon"
   | "dragging_grid_origin"
-  | "rotating_grid";
+  | "rotating_grid"
+  | "dragging_vertex"
+  | "drawing_shape"
+  | "drawing_lasso";
+
+/** A region vertex: index `vertex` of ring `ring` in polygon `polygon`, closing point excluded. */
+export interface RegionVertexRef {
+  polygon: number;
+  ring: number;
+  vertex: number;
+}
 
 export interface RasterMask {
   data: Uint8Array;
@@ -42,12 +98,15 @@ export interface RasterMask {
   /** Summed area table over `data`, flattened row-major with (width + 1) stride. */
   prefixSum: Uint32Array;
   /**
-   * Size of a raster cell measured in grid units (currently spacing / 10 for a finer raster).
+   * Size of a raster cell along grid x, measured in grid units (the lattice pitch divided by
+   * RASTER_RESOLUTION by default). Cells are only square when the pitch is.
    */
-  cellSize: number;
+  cellSizeX: number;
+  /** Size of a raster cell along grid y, measured in grid units. */
+  cellSizeY: number;
   /**
    * Grid coordinates of the lower-left corner of cell (0, 0). Converting from raster to grid requires
-   * originGrid + (index + 0.5) * cellSize to reach the cell center.
+   * originGrid + (index + 0.5) * cellSize{X,Y} to reach the cell center.
    */
   originGrid: Vec2;
 }
@@ -61,16 +120,46 @@ export interface GridSampleBounds {
 
 export interface RasterResult {
   mask: RasterMask;
-  gridSpacing: number;
+  gridKind: GridKind;
+  gridSpacingX: number;
+  gridSpacingY: number;
   gridSampleBounds: GridSampleBounds;
+  /** Rule used to turn covered cells into counted cells. */
+  componentRule: ComponentRule;
+  /** Fraction of a cell's raster pixels that must be covered for it to count. */
+  minCoverage: number;
+  /** Number of counted cells, i.e. the count of insideCells. */
   gridCellCount: number;
-  insideCells: Set<string>;
+  /** The counted cells, from every component the rule keeps. */
+  insideCells: CellSet;
+  /**
+   * Covered fraction of every counted cell, at insideCells.indexOf(ix, iy); 1 for fully covered
+   * cells.
+   */
+  cellCoverage: Float32Array;
+}
+
+/** Best-so-far result of a running alignment search, with the pose and raster it would give. */
+export interface AlignPreview {
+  result: GridAlignmentResult;
+  grid: GridState;
+  raster: RasterResult | null;
 }
 
 export interface AppState {
   region: MultiPolygon | null;
   drawingPolygon: Vec2[];
   drawingCursorWorld: Vec2 | null;
+  /** Target the cursor snapped to while drawing, shown as an indicator; null when free. */
+  drawingSnap: SnapResult | null;
+  snapSettings: SnapSettings;
+  /** Tool the add and subtract modes draw with. */
+  drawTool: DrawTool;
+  shapeSettings: ShapeSettings;
+  /** Shape being dragged out with a shape tool; null otherwise. */
+  drawingShape: ShapeDrag | null;
+  /** Pointer path traced so far with the lasso tool, in world coordinates. */
+  drawingLasso: Vec2[];
   polygonMode: PolygonMode;
   interactionMode: InteractionMode;
   grid: GridState;
@@ -78,7 +167,35 @@ export interface AppState {
   raster: RasterResult | null;
   hoveredGizmo: GridGizmoHover;
   hoveredFirstVertex: boolean;
+  /** Whether region vertices are shown as handles that can be dragged, inserted and deleted. */
+  regionEditing: boolean;
+  hoveredVertex: RegionVertexRef | null;
+  /** Edge whose midpoint handle is hovered, named by its first vertex. */
+  hoveredEdge: RegionVertexRef | null;
+  /** Vertex last grabbed in edit mode; Delete removes it. */
+  selectedVertex: RegionVertexRef | null;
   autoAlignEnabled: boolean;
+  /** Ranked results of the last alignment search; empty until one completes. */
+  alignCandidates: GridAlignmentResult[];
+  /** Index into alignCandidates of the candidate currently applied to the grid. */
+  alignCandidateIndex: number;
+  /** Leader of the running search, drawn ghosted over the grid; null when there is none. */
+  alignPreview: AlignPreview | null;
+  /** Whether the running search's leader is previewed as it improves. */
+  alignPreviewEnabled: boolean;
+  /** Coarse angles of the last finished search, drawn as a fan while the debug view is open. */
+  angleReports: CandidateAngleReport[];
+  showAngleDebug: boolean;
+  /** Which parts of the grid pose auto-align may change. */
+  alignConstraints: AlignmentConstraints;
+  /** When set, auto-align also scales the grid spacing within these bounds. */
+  spacingSearch: SpacingSearch | null;
+  /** Connectivity and aggregation shared by the cell count, the overlay and auto-align. */
+  componentRule: ComponentRule;
+  /** Minimum gap, in world units, kept between counted cells and the region boundary. */
+  clearance: number;
+  /** Fraction of a cell that must lie inside the region for it to count, in (0, 1]. */
+  minCoverage: number;
 }
 
 export const INITIAL_CAMERA_ZOOM = 60;
@@ -127,12 +244,20 @@ export function createInitialState(): AppState {
     region: cloneRegion(DEFAULT_REGION),
     drawingPolygon: [],
     drawingCursorWorld: null,
+    drawingSnap: null,
+    snapSettings: { ...DEFAULT_SNAP_SETTINGS },
+    drawTool: "polygon",
+    shapeSettings: { ...DEFAULT_SHAPE_SETTINGS },
+    drawingShape: null,
+    drawingLasso: [],
     polygonMode: null,
     interactionMode: "idle",
     grid: {
       origin: { x: 0, y: 0 },
       angle: 0,
-      spacing: 1,
+      kind: "rect",
+      spacingX: 1,
+      spacingY: 1,
     },
     camera: {
       offset: { x: window.innerWidth / 2, y: window.innerHeight / 2 },
@@ -141,6 +266,21 @@ export function createInitialState(): AppState {
     raster: null,
     hoveredGizmo: null,
     hoveredFirstVertex: false,
+    regionEditing: false,
+    hoveredVertex: null,
+    hoveredEdge: null,
+    selectedVertex: null,
     autoAlignEnabled: true,
+    alignCandidates: [],
+    alignCandidateIndex: 0,
+    alignPreview: null,
+    alignPreviewEnabled: true,
+    angleReports: [],
+    showAngleDebug: false,
+    alignConstraints: { lockAngle: false, lockOrigin: false, slideAxis: null },
+    spacingSearch: null,
+    componentRule: { ...DEFAULT_COMPONENT_RULE },
+    clearance: 0,
+    minCoverage: 1,
   };
 }
@@ -1,26 +1,146 @@
-import type { PolygonBooleanMode } from "./state";
+import type {
+  AlignmentConstraints,
+  CandidateAngleReport,
+  SpacingSearch,
+  GridAlignmentProgress,
+  GridAlignmentStats,
+} from "./gridAlignment";
+import { ANGLE_SOURCE_COLORS } from "./render";
+import type { GridSnapMode, SnapSettings } from "./snapping";
+import { MIN_ELLIPSE_SEGMENTS, MIN_NGON_SIDES } from "./shapes";
+import type { DrawTool, ShapeSettings } from "./shapes";
+import type {
+  CellConnectivity,
+  ComponentAggregation,
+  ComponentRule,
+  GridKind,
+  PolygonBooleanMode,
+} from "./state";
 
 export interface ToolbarHandlers {
   isModeActive: (mode: PolygonBooleanMode) => boolean;
+  isEditingRegion: () => boolean;
   onModeToggle: (mode: PolygonBooleanMode) => void;
+  onEditToggle: () => void;
   onClear: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
   onResetCamera: () => void;
   onToggleAutoAlign: (enabled: boolean) => void;
+  onTogglePreview: (enabled: boolean) => void;
+  /** Stops the running search and keeps its best result so far. */
+  onAcceptBest: () => void;
+  /** Called when the candidate angle panel is opened or closed. */
+  onAngleDebugToggle: (open: boolean) => void;
+  /** Current candidate position, or null when there is nothing to cycle through. */
+  getCandidateInfo: () => { index: number; total: number; cellCount: number } | null;
+  onCandidateStep: (delta: number) => void;
+  onConstraintsChange: (constraints: AlignmentConstraints) => void;
+  /** Called with null when the spacing search is switched off. */
+  onSpacingSearchChange: (spacingSearch: SpacingSearch | null) => void;
+  onSnapSettingsChange: (settings: SnapSettings) => void;
+  onDrawToolChange: (tool: DrawTool) => void;
+  onShapeSettingsChange: (settings: ShapeSettings) => void;
+  /** Called with the new cell width and height; invalid entries are ignored. */
+  onCellSizeChange: (spacingX: number, spacingY: number) => void;
+  onGridKindChange: (kind: GridKind) => void;
+  onComponentRuleChange: (rule: ComponentRule) => void;
+  /** Called with the new boundary clearance; negative or invalid entries are ignored. */
+  onClearanceChange: (clearance: number) => void;
+  /** Called with the new minimum cell coverage as a fraction; invalid entries are ignored. */
+  onMinCoverageChange: (minCoverage: number) => void;
 }
 
 export interface ToolbarControls {
   updateModeButtons(): void;
   updateCellCount(value: number): void;
+  /** Enables undo and redo; each label names the step it would apply, or is null when none. */
+  setHistoryState(undoLabel: string | null, redoLabel: string | null): void;
   setAligning(value: boolean): void;
   setAlignStats(value: string): void;
+  setAlignProgress(progress: GridAlignmentProgress): void;
+  /** Fills the collapsible timing panel; null hides it. */
+  setAlignBreakdown(stats: GridAlignmentStats | null): void;
+  /** Lists the coarse angles of the last search with their sources; null hides the panel. */
+  setAngleReports(reports: CandidateAngleReport[] | null): void;
   setAutoAlignChecked(value: boolean): void;
+  setPreviewChecked(value: boolean): void;
+  /** Shows the accept button while a running search has a result to keep. */
+  setAcceptAvailable(value: boolean): void;
+  updateCandidateNav(): void;
+  setConstraints(value: AlignmentConstraints): void;
+  setSpacingSearch(value: SpacingSearch | null): void;
+  setSnapSettings(value: SnapSettings): void;
+  setDrawTool(tool: DrawTool): void;
+  setShapeSettings(value: ShapeSettings): void;
+  setCellSize(spacingX: number, spacingY: number): void;
+  setGridKind(kind: GridKind): void;
+  setComponentRule(rule: ComponentRule): void;
+  setClearance(value: number): void;
+  setMinCoverage(value: number): void;
 }
 
 export function setupToolbar(handlers: ToolbarHandlers): ToolbarControls {
   const modeButtons = Array.from(document.querySelectorAll<HTMLButtonElement>(".mode-button"));
   const cellCountElement = document.getElementById("cell-count") as HTMLElement | null;
+  const editButton = document.getElementById("edit-vertices") as HTMLButtonElement | null;
+  const undoButton = document.getElementById("undo-button") as HTMLButtonElement | null;
+  const redoButton = document.getElementById("redo-button") as HTMLButtonElement | null;
   const alignStatsEl = document.getElementById("align-stats") as HTMLElement | null;
+  const breakdownPanel = document.querySelector<HTMLDetailsElement>(".align-breakdown");
+  const breakdownEl = document.getElementById("align-breakdown") as HTMLElement | null;
+  const angleDebugPanel = document.querySelector<HTMLDetailsElement>(".angle-debug");
+  const angleDebugList = document.getElementById("angle-debug") as HTMLElement | null;
   const autoAlignToggle = document.getElementById("auto-align-toggle") as HTMLInputElement | null;
+  const previewToggle = document.getElementById("align-preview-toggle") as HTMLInputElement | null;
+  const acceptBestButton = document.getElementById("accept-best") as HTMLButtonElement | null;
+  const candidateNav = document.querySelector<HTMLElement>(".candidate-nav");
+  const candidateLabel = document.getElementById("candidate-label") as HTMLElement | null;
+  const candidatePrev = document.getElementById("candidate-prev") as HTMLButtonElement | null;
+  const candidateNext = document.getElementById("candidate-next") as HTMLButtonElement | null;
+  const lockAngleToggle = document.getElementById("lock-angle-toggle") as HTMLInputElement | null;
+  const lockOriginToggle = document.getElementById("lock-origin-toggle") as HTMLInputElement | null;
+  const slideAxisToggle = document.getElementById("slide-axis-toggle") as HTMLInputElement | null;
+  const slideAxisSelect = document.getElementById("slide-axis-select") as HTMLSelectElement | null;
+  const spacingSearchToggle = document.getElementById(
+    "spacing-search-toggle",
+  ) as HTMLInputElement | null;
+  const spacingMinInput = document.getElementById("spacing-min-input") as HTMLInputElement | null;
+  const spacingMaxInput = document.getElementById("spacing-max-input") as HTMLInputElement | null;
+  const spacingStepInput = document.getElementById("spacing-step-input") as HTMLInputElement | null;
+  const spacingGoalSelect = document.getElementById(
+    "spacing-goal-select",
+  ) as HTMLSelectElement | null;
+  const spacingTargetInput = document.getElementById(
+    "spacing-target-input",
+  ) as HTMLInputElement | null;
+  const snapVerticesToggle = document.getElementById(
+    "snap-vertices-toggle",
+  ) as HTMLInputElement | null;
+  const snapEdgesToggle = document.getElementById("snap-edges-toggle") as HTMLInputElement | null;
+  const snapGridSelect = document.getElementById("snap-grid-select") as HTMLSelectElement | null;
+  const drawToolSelect = document.getElementById("draw-tool-select") as HTMLSelectElement | null;
+  const followGridToggle = document.getElementById(
+    "shape-follow-grid-toggle",
+  ) as HTMLInputElement | null;
+  const ellipseSegmentsInput = document.getElementById(
+    "ellipse-segments-input",
+  ) as HTMLInputElement | null;
+  const ngonSidesInput = document.getElementById("ngon-sides-input") as HTMLInputElement | null;
+  const cellWidthInput = document.getElementById("cell-width-input") as HTMLInputElement | null;
+  const cellHeightInput = document.getElementById("cell-height-input") as HTMLInputElement | null;
+  const gridKindSelect = document.getElementById("grid-kind-select") as HTMLSelectElement | null;
+  const aggregationSelect = document.getElementById(
+    "aggregation-select",
+  ) as HTMLSelectElement | null;
+  const minComponentInput = document.getElementById(
+    "min-component-size",
+  ) as HTMLInputElement | null;
+  const connectivitySelect = document.getElementById(
+    "connectivity-select",
+  ) as HTMLSelectElement | null;
+  const clearanceInput = document.getElementById("clearance-input") as HTMLInputElement | null;
+  const minCoverageInput = document.getElementById("min-coverage-input") as HTMLInputElement | null;
 
   const updateModeButtons = () => {
     modeButtons.forEach((button) => {
@@ -32,6 +152,11 @@ export function setupToolbar(handlers: ToolbarHandlers): ToolbarControls {
       button.classList.toggle("active", isActive);
       button.setAttribute("aria-pressed", isActive ? "true" : "false");
     });
+    if (editButton) {
+      const isEditing = handlers.isEditingRegion();
+      editButton.classList.toggle("active", isEditing);
+      editButton.setAttribute("aria-pressed", isEditing ? "true" : "false");
+    }
   };
 
   const updateCellCount = (value: number) => {
@@ -40,6 +165,17 @@ export function setupToolbar(handlers: ToolbarHandlers): ToolbarControls {
     }
   };
 
+  const setHistoryState = (undoLabel: string | null, redoLabel: string | null) => {
+    if (undoButton) {
+      undoButton.disabled = !undoLabel;
+      undoButton.title = undoLabel ? `Undo ${undoLabel.toLowerCase()} (Ctrl+Z)` : "Undo";
+    }
+    if (redoButton) {
+      redoButton.disabled = !redoLabel;
+      redoButton.title = redoLabel ? `Redo ${redoLabel.toLowerCase()} (Ctrl+Shift+Z)` : "Redo";
+    }
+  };
+
   const setAligning = (value: boolean) => {
     if (autoAlignToggle?.parentElement) {
       autoAlignToggle.parentElement.classList.toggle("aligning", value);
@@ -55,12 +191,289 @@ export function setupToolbar(handlers: ToolbarHandlers): ToolbarControls {
     }
   };
 
+  const setAlignProgress = (progress: GridAlignmentProgress) => {
+    const elapsed = `${(progress.elapsedMs / 1000).toFixed(1)} s`;
+    if (progress.stage === "refine") {
+      setAlignStats(`Refining… best ${progress.bestCount} · ${elapsed}`);
+      return;
+    }
+    const percent = Math.round(
+      (100 * progress.orientationsDone) / Math.max(1, progress.orientationsTotal),
+    );
+    setAlignStats(`Aligning… ${percent}% · best ${progress.bestCount} · ${elapsed}`);
+  };
+
+  const setAlignBreakdown = (stats: GridAlignmentStats | null) => {
+    if (breakdownPanel) {
+      breakdownPanel.hidden = !stats;
+    }
+    if (breakdownEl) {
+      breakdownEl.textContent = stats ? formatAlignBreakdown(stats) : "";
+    }
+  };
+
+  const setAngleReports = (reports: CandidateAngleReport[] | null) => {
+    if (angleDebugPanel) {
+      angleDebugPanel.hidden = !reports?.length;
+    }
+    if (!angleDebugList) {
+      return;
+    }
+    angleDebugList.replaceChildren();
+    const best = Math.max(0, ...(reports ?? []).map((report) => report.cellCount));
+    reports
+      ?.slice()
+      .sort((a, b) => a.angle - b.angle)
+      .forEach((report) => {
+        const row = document.createElement("div");
+        row.classList.toggle("best", report.cellCount === best);
+        const swatch = document.createElement("span");
+        swatch.className = "angle-swatch";
+        swatch.style.background = ANGLE_SOURCE_COLORS[report.sources[0]];
+        const degrees = `${((report.angle * 180) / Math.PI).toFixed(2)}°`.padStart(8);
+        const count = `${report.cellCount}${report.sparse ? "~" : ""}`.padStart(6);
+        row.append(swatch, `${degrees} ${count}  ${report.sources.join(" + ")}`);
+        angleDebugList.append(row);
+      });
+  };
+
   const setAutoAlignChecked = (value: boolean) => {
     if (autoAlignToggle) {
       autoAlignToggle.checked = value;
     }
   };
 
+  const setPreviewChecked = (value: boolean) => {
+    if (previewToggle) {
+      previewToggle.checked = value;
+    }
+  };
+
+  const setAcceptAvailable = (value: boolean) => {
+    if (acceptBestButton) {
+      acceptBestButton.hidden = !value;
+    }
+  };
+
+  const updateCandidateNav = () => {
+    const info = handlers.getCandidateInfo();
+    if (candidateNav) {
+      candidateNav.hidden = !info;
+    }
+    if (!info) {
+      return;
+    }
+    if (candidateLabel) {
+      const position = `candidate ${info.index + 1} of ${info.total}`;
+      candidateLabel.textContent = `${position} (${info.cellCount} cells)`;
+    }
+    if (candidatePrev) {
+      candidatePrev.disabled = info.total < 2;
+    }
+    if (candidateNext) {
+      candidateNext.disabled = info.total < 2;
+    }
+  };
+
+  const readConstraints = (): AlignmentConstraints => ({
+    lockAngle: lockAngleToggle?.checked ?? false,
+    lockOrigin: lockOriginToggle?.checked ?? false,
+    slideAxis: slideAxisToggle?.checked ? (slideAxisSelect?.value === "y" ? "y" : "x") : null,
+  });
+
+  const setConstraints = (value: AlignmentConstraints) => {
+    if (lockAngleToggle) {
+      lockAngleToggle.checked = value.lockAngle;
+    }
+    if (lockOriginToggle) {
+      lockOriginToggle.checked = value.lockOrigin;
+    }
+    if (slideAxisToggle) {
+      slideAxisToggle.checked = value.slideAxis !== null;
+    }
+    if (slideAxisSelect && value.slideAxis) {
+      slideAxisSelect.value = value.slideAxis;
+    }
+  };
+
+  const updateSpacingSearchInputs = () => {
+    const enabled = spacingSearchToggle?.checked ?? false;
+    [spacingMinInput, spacingMaxInput, spacingStepInput, spacingGoalSelect].forEach((input) => {
+      if (input) {
+        input.disabled = !enabled;
+      }
+    });
+    if (spacingTargetInput) {
+      spacingTargetInput.disabled = !enabled || spacingGoalSelect?.value !== "targetCount";
+    }
+  };
+
+  /** Null when switched off or when a bound is missing or not positive. */
+  const readSpacingSearch = (): SpacingSearch | null => {
+    if (!spacingSearchToggle?.checked) {
+      return null;
+    }
+    const min = Number(spacingMinInput?.value);
+    const max = Number(spacingMaxInput?.value);
+    const step = Number(spacingStepInput?.value);
+    if (!(min > 0 && max > 0 && step > 0)) {
+      return null;
+    }
+    const goal = spacingGoalSelect?.value === "targetCount" ? "targetCount" : "area";
+    const targetCount = Math.max(1, Math.round(Number(spacingTargetInput?.value) || 1));
+    if (goal === "targetCount") {
+      return { min, max, step, goal, targetCount };
+    }
+    return { min, max, step, goal };
+  };
+
+  const setSpacingSearch = (value: SpacingSearch | null) => {
+    if (spacingSearchToggle) {
+      spacingSearchToggle.checked = value !== null;
+    }
+    if (value) {
+      if (spacingMinInput) {
+        spacingMinInput.value = formatCellSize(value.min);
+      }
+      if (spacingMaxInput) {
+        spacingMaxInput.value = formatCellSize(value.max);
+      }
+      if (spacingStepInput) {
+        spacingStepInput.value = formatCellSize(value.step);
+      }
+      if (spacingGoalSelect) {
+        spacingGoalSelect.value = value.goal;
+      }
+      if (spacingTargetInput && value.targetCount !== undefined) {
+        spacingTargetInput.value = value.targetCount.toString();
+      }
+    }
+    updateSpacingSearchInputs();
+  };
+
+  const readSnapSettings = (): SnapSettings => ({
+    vertices: snapVerticesToggle?.checked ?? false,
+    edges: snapEdgesToggle?.checked ?? false,
+    grid: (snapGridSelect?.value ?? "off") as GridSnapMode,
+  });
+
+  const setSnapSettings = (value: SnapSettings) => {
+    if (snapVerticesToggle) {
+      snapVerticesToggle.checked = value.vertices;
+    }
+    if (snapEdgesToggle) {
+      snapEdgesToggle.checked = value.edges;
+    }
+    if (snapGridSelect) {
+      snapGridSelect.value = value.grid;
+    }
+  };
+
+  /** Enables only the shape settings the tool uses. */
+  const setDrawTool = (tool: DrawTool) => {
+    if (drawToolSelect) {
+      drawToolSelect.value = tool;
+    }
+    if (followGridToggle) {
+      followGridToggle.disabled = tool !== "rectangle" && tool !== "ellipse";
+    }
+    if (ellipseSegmentsInput) {
+      ellipseSegmentsInput.disabled = tool !== "ellipse";
+    }
+    if (ngonSidesInput) {
+      ngonSidesInput.disabled = tool !== "ngon";
+    }
+  };
+
+  let shapeSettings: ShapeSettings | null = null;
+
+  const setShapeSettings = (value: ShapeSettings) => {
+    shapeSettings = value;
+    if (followGridToggle) {
+      followGridToggle.checked = value.followGrid;
+    }
+    if (ellipseSegmentsInput) {
+      ellipseSegmentsInput.value = value.ellipseSegments.toString();
+    }
+    if (ngonSidesInput) {
+      ngonSidesInput.value = value.ngonSides.toString();
+    }
+  };
+
+  const readShapeSettings = (): ShapeSettings | null => {
+    if (!shapeSettings) {
+      return null;
+    }
+    const segments = Math.round(Number(ellipseSegmentsInput?.value));
+    const sides = Math.round(Number(ngonSidesInput?.value));
+    return {
+      followGrid: followGridToggle?.checked ?? shapeSettings.followGrid,
+      ellipseSegments:
+        segments >= MIN_ELLIPSE_SEGMENTS ? segments : shapeSettings.ellipseSegments,
+      ngonSides: sides >= MIN_NGON_SIDES ? sides : shapeSettings.ngonSides,
+    };
+  };
+
+  const setCellSize = (spacingX: number, spacingY: number) => {
+    if (cellWidthInput) {
+      cellWidthInput.value = formatCellSize(spacingX);
+    }
+    if (cellHeightInput) {
+      cellHeightInput.value = formatCellSize(spacingY);
+    }
+  };
+
+  // Hex cells are regular, so only their width is editable.
+  const setGridKind = (kind: GridKind) => {
+    if (gridKindSelect) {
+      gridKindSelect.value = kind;
+    }
+    if (cellHeightInput) {
+      cellHeightInput.disabled = kind !== "rect";
+    }
+  };
+
+  let componentRule: ComponentRule | null = null;
+
+  const setComponentRule = (rule: ComponentRule) => {
+    componentRule = rule;
+    if (aggregationSelect) {
+      aggregationSelect.value = rule.aggregation;
+    }
+    if (minComponentInput) {
+      minComponentInput.value = rule.minComponentSize.toString();
+      minComponentInput.disabled = rule.aggregation !== "minSize";
+    }
+    if (connectivitySelect) {
+      connectivitySelect.value = rule.connectivity;
+    }
+  };
+
+  const setClearance = (value: number) => {
+    if (clearanceInput) {
+      clearanceInput.value = formatCellSize(value);
+    }
+  };
+
+  // The input shows a percentage; state keeps the fraction.
+  const setMinCoverage = (value: number) => {
+    if (minCoverageInput) {
+      minCoverageInput.value = formatCellSize(value * 100);
+    }
+  };
+
+  const readComponentRule = (): ComponentRule | null => {
+    const minComponentSize = Math.floor(Number(minComponentInput?.value));
+    if (!componentRule || !(minComponentSize >= 1)) {
+      return null;
+    }
+    return {
+      aggregation: (aggregationSelect?.value as ComponentAggregation) ?? componentRule.aggregation,
+      connectivity: (connectivitySelect?.value as CellConnectivity) ?? componentRule.connectivity,
+      minComponentSize,
+    };
+  };
+
   modeButtons.forEach((button) => {
     const buttonMode = button.dataset.mode as PolygonBooleanMode | undefined;
     if (!buttonMode) {
@@ -69,23 +482,206 @@ export function setupToolbar(handlers: ToolbarHandlers): ToolbarControls {
     button.addEventListener("click", () => handlers.onModeToggle(buttonMode));
   });
 
+  editButton?.addEventListener("click", () => {
+    handlers.onEditToggle();
+  });
+
   document.getElementById("clear-region")?.addEventListener("click", () => {
     handlers.onClear();
   });
 
+  undoButton?.addEventListener("click", () => {
+    handlers.onUndo();
+  });
+
+  redoButton?.addEventListener("click", () => {
+    handlers.onRedo();
+  });
+
   document.getElementById("reset-camera")?.addEventListener("click", () => {
     handlers.onResetCamera();
   });
 
+  candidatePrev?.addEventListener("click", () => {
+    handlers.onCandidateStep(-1);
+  });
+
+  candidateNext?.addEventListener("click", () => {
+    handlers.onCandidateStep(1);
+  });
+
   autoAlignToggle?.addEventListener("change", (event) => {
     handlers.onToggleAutoAlign((event.target as HTMLInputElement).checked);
   });
 
+  previewToggle?.addEventListener("change", () => {
+    handlers.onTogglePreview(previewToggle.checked);
+  });
+
+  angleDebugPanel?.addEventListener("toggle", () => {
+    handlers.onAngleDebugToggle(angleDebugPanel.open);
+  });
+
+  acceptBestButton?.addEventListener("click", () => {
+    handlers.onAcceptBest();
+  });
+
+  [lockAngleToggle, lockOriginToggle, slideAxisToggle, slideAxisSelect].forEach((input) => {
+    input?.addEventListener("change", () => {
+      handlers.onConstraintsChange(readConstraints());
+    });
+  });
+
+  drawToolSelect?.addEventListener("change", () => {
+    const tool = drawToolSelect.value as DrawTool;
+    setDrawTool(tool);
+    handlers.onDrawToolChange(tool);
+  });
+
+  [followGridToggle, ellipseSegmentsInput, ngonSidesInput].forEach((input) => {
+    input?.addEventListener("change", () => {
+      const settings = readShapeSettings();
+      if (!settings) {
+        return;
+      }
+      // Echo back so out-of-range counts snap to the kept value.
+      setShapeSettings(settings);
+      handlers.onShapeSettingsChange(settings);
+    });
+  });
+
+  spacingSearchToggle?.addEventListener("change", () => {
+    // Start from a range around the current width the first time the search is switched on.
+    const width = Number(cellWidthInput?.value);
+    if (spacingSearchToggle.checked && width > 0 && !spacingMinInput?.value) {
+      setSpacingSearch({
+        min: width * 0.8,
+        max: width * 1.2,
+        step: width * 0.05,
+        goal: "area",
+        targetCount: 1,
+      });
+    }
+    updateSpacingSearchInputs();
+    handlers.onSpacingSearchChange(readSpacingSearch());
+  });
+
+  [
+    spacingMinInput,
+    spacingMaxInput,
+    spacingStepInput,
+    spacingGoalSelect,
+    spacingTargetInput,
+  ].forEach((input) => {
+    input?.addEventListener("change", () => {
+      updateSpacingSearchInputs();
+      const spacingSearch = readSpacingSearch();
+      if (spacingSearch) {
+        handlers.onSpacingSearchChange(spacingSearch);
+      }
+    });
+  });
+
+  [snapVerticesToggle, snapEdgesToggle, snapGridSelect].forEach((input) => {
+    input?.addEventListener("change", () => {
+      handlers.onSnapSettingsChange(readSnapSettings());
+    });
+  });
+
+  [cellWidthInput, cellHeightInput].forEach((input) => {
+    input?.addEventListener("change", () => {
+      const spacingX = Number(cellWidthInput?.value);
+      const spacingY = Number(cellHeightInput?.value);
+      if (spacingX > 0 && spacingY > 0 && Number.isFinite(spacingX) && Number.isFinite(spacingY)) {
+        handlers.onCellSizeChange(spacingX, spacingY);
+      }
+    });
+  });
+
+  gridKindSelect?.addEventListener("change", () => {
+    const kind = gridKindSelect.value as GridKind;
+    setGridKind(kind);
+    handlers.onGridKindChange(kind);
+  });
+
+  [aggregationSelect, minComponentInput, connectivitySelect].forEach((input) => {
+    input?.addEventListener("change", () => {
+      const rule = readComponentRule();
+      if (!rule) {
+        return;
+      }
+      setComponentRule(rule);
+      handlers.onComponentRuleChange(rule);
+    });
+  });
+
+  clearanceInput?.addEventListener("change", () => {
+    const clearance = Number(clearanceInput.value);
+    if (clearance >= 0 && Number.isFinite(clearance)) {
+      handlers.onClearanceChange(clearance);
+    }
+  });
+
+  minCoverageInput?.addEventListener("change", () => {
+    const percent = Number(minCoverageInput.value);
+    if (percent > 0 && percent <= 100) {
+      handlers.onMinCoverageChange(percent / 100);
+    }
+  });
+
   return {
     updateModeButtons,
     updateCellCount,
+    setHistoryState,
     setAligning,
     setAlignStats,
+    setAlignProgress,
+    setAlignBreakdown,
+    setAngleReports,
     setAutoAlignChecked,
+    setPreviewChecked,
+    setAcceptAvailable,
+    updateCandidateNav,
+    setConstraints,
+    setSpacingSearch,
+    setSnapSettings,
+    setDrawTool,
+    setShapeSettings,
+    setCellSize,
+    setGridKind,
+    setComponentRule,
+    setClearance,
+    setMinCoverage,
   };
 }
+
+function formatAlignBreakdown(stats: GridAlignmentStats): string {
+  const { timings } = stats;
+  const detail = timings.rasterDetail;
+  const row = (label: string, ms: number) => `${label.padEnd(16)}${ms.toFixed(1).padStart(9)} ms`;
+  const warmStart = {
+    none: [],
+    kept: ["Warm start: neighbourhood kept"],
+    fellBack: ["Warm start: fell back to full sweep"],
+  }[stats.warmStart];
+  return [
+    row("Total", stats.durationMs),
+    row("Angle prep", timings.anglePrepMs),
+    row("Sweep rasters", timings.rasterMs),
+    row("Sweep offsets", timings.offsetsMs),
+    row("Refinement", timings.refineMs),
+    row("Exact check", timings.verifyMs),
+    "All rasters:",
+    row("  bounds", detail.boundsMs),
+    row("  fill", detail.fillMs),
+    row("  prefix sums", detail.prefixMs),
+    row("  components", detail.componentMs),
+    `${stats.orientations} orientations × ${stats.offsetsPerOrientation} offsets`,
+    `${stats.samples} samples`,
+    ...warmStart,
+  ].join("\n");
+}
+
+function formatCellSize(value: number): string {
+  return Number(value.toFixed(3)).toString();
+}